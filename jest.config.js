@@ -24,5 +24,5 @@ module.exports = {
   coverageDirectory: "coverage",
   coverageReporters: ["text", "lcov", "html"],
   moduleFileExtensions: ["ts", "tsx", "js", "json"],
-  modulePathIgnorePatterns: [".debug.data.json"],
+  modulePathIgnorePatterns: ["\\.debug\\.data(\\.[^/]+)?\\.json$"],
 };
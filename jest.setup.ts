@@ -1,5 +1,8 @@
 // Runtime auto-initializes and sets up globals when required
 import "./src/runtime";
+import { matchers } from "./src/jest-matchers";
+
+expect.extend(matchers);
 
 beforeEach(() => {
   // Clear debug data before each test
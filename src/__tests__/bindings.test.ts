@@ -0,0 +1,81 @@
+import { formatEntry } from "../report";
+import { DebugData, EntryQuery } from "../types";
+import { Account, describeOwner } from "./fixtures/account";
+
+const entries = (): DebugData[] =>
+  global.inlineDebugger
+    .getData()
+    .filter(
+      (item) => item.filePath.endsWith("account.ts") && item.type === "variable"
+    );
+
+describe("Bindings", () => {
+  test("should record every destructured name with its binding path", () => {
+    describeOwner({ id: 7, profile: { name: "Ada" }, roles: ["admin", "dev"] });
+
+    const [id, name, primary, others] = entries();
+    expect(id).toMatchObject({
+      variable: "id",
+      binding: "owner.id",
+      called: "7",
+      line: 23,
+      column: 5,
+    });
+    expect(name).toMatchObject({
+      variable: "name",
+      binding: "owner.profile.name",
+      called: '"Ada"',
+    });
+    expect(primary).toMatchObject({
+      variable: "primary",
+      binding: "owner.roles[0]",
+    });
+    expect(formatEntry(others!)).toBe(
+      'others (owner.roles.slice(1)) = ["dev"]'
+    );
+  });
+
+  test("should record the new value of updated variables", () => {
+    describeOwner({ id: 7, profile: { name: "Ada" }, roles: [] });
+
+    expect(entries().filter((item) => item.line === 29)).toEqual([
+      expect.objectContaining({ variable: "visits", called: "1" }),
+    ]);
+  });
+
+  test("should record assignments to members and class fields", () => {
+    const account = new Account();
+    account.deposit(5);
+    account.deposit(10);
+
+    expect(entries().map(formatEntry)).toEqual([
+      "history = [0]",
+      "this.balance = 5",
+      "this.balance = 15",
+    ]);
+  });
+
+  test("should run marked initializers and return values once", () => {
+    let count = 0;
+    const next = () => ++count;
+    const read = () => {
+      return next(); //?
+    };
+
+    let value = 0;
+    {
+      const current = next(); //?
+      value = current;
+    }
+    const returned = read();
+
+    expect(count).toBe(2);
+    expect([value, returned]).toEqual([1, 2]);
+    const recorded = (query: EntryQuery) =>
+      global.inlineDebugger
+        .query({ file: "bindings.test.ts", ...query })
+        .map((item) => item.called);
+    expect(recorded({ variable: "current" })).toEqual(["1"]);
+    expect(recorded({ type: "return" })).toEqual(["2"]);
+  });
+});
@@ -0,0 +1,455 @@
+import { builtinModules } from "module";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { Collector, startCollector } from "../collector";
+import { InlineDebuggerBrowserRuntime } from "../runtime-browser";
+import { readDebugData } from "../storage";
+
+/**
+ * Wait until `check` passes, polling every few ms
+ */
+const until = async (check: () => boolean, timeout = 2000) => {
+  const end = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > end) {
+      throw new Error("Timed out");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+/**
+ * Frame of a WebSocket message, masked as clients send them
+ */
+const maskedFrame = (opcode: number, payload: Buffer): Buffer => {
+  const mask = crypto.randomBytes(4);
+  const masked = payload.map((byte, i) => byte ^ (mask[i % 4] as number));
+  const length =
+    payload.length < 126
+      ? Buffer.from([0x80 | payload.length])
+      : Buffer.from([0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([Buffer.from([0x80 | opcode]), length, mask, masked]);
+};
+
+/**
+ * Minimal `WebSocket` client, Node 20 has none
+ */
+class TestWebSocket {
+  public static accepted: string[] = [];
+  public readyState = 0;
+  public onopen: (() => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public onerror: (() => void) | null = null;
+  private socket: net.Socket | undefined;
+
+  constructor(url: string) {
+    const key = crypto.randomBytes(16).toString("base64");
+    const request = http.request(url.replace(/^ws/, "http"), {
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": key,
+        "Sec-WebSocket-Version": "13",
+      },
+    });
+    request.on("upgrade", (response, socket: net.Socket) => {
+      TestWebSocket.accepted.push(
+        response.headers["sec-websocket-accept"] ===
+          crypto
+            .createHash("sha1")
+            .update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+            .digest("base64")
+          ? "valid"
+          : "invalid"
+      );
+      this.socket = socket;
+      this.readyState = 1;
+      socket.on("error", () => this.onerror?.());
+      socket.on("close", () => {
+        this.readyState = 3;
+        this.onclose?.();
+      });
+      // Frames sent by the collector are not read, only the end of the stream
+      socket.resume();
+      this.onopen?.();
+    });
+    request.on("error", () => this.onerror?.());
+    request.end();
+  }
+
+  public send(data: string): void {
+    this.socket?.write(maskedFrame(0x1, Buffer.from(data)));
+  }
+
+  public close(): void {
+    this.socket?.end(maskedFrame(0x8, Buffer.alloc(0)));
+  }
+}
+
+/**
+ * Modules a source file imports, Node built-ins by name and local ones by
+ * path
+ */
+const importsOf = (filePath: string): string[] =>
+  [...fs.readFileSync(filePath, "utf8").matchAll(/from "([^"]+)"/g)].map(
+    ([, specifier]) =>
+      specifier!.startsWith(".")
+        ? `${path.resolve(path.dirname(filePath), specifier!)}.ts`
+        : specifier!
+  );
+
+describe("Browser runtime", () => {
+  let dir: string;
+  let collector: Collector;
+  let runtime: InlineDebuggerBrowserRuntime;
+
+  const watch = (i: number) =>
+    runtime.inlineDebuggerWatch({
+      type: "variable",
+      variable: "i",
+      called: () => ({ i }),
+      filePath: "/project/src/App.tsx",
+      line: 7,
+    });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    collector = await startCollector({
+      port: 0,
+      cwd: dir,
+      storage: { flushSize: 1 },
+    });
+  });
+
+  afterEach(async () => {
+    runtime.initialize({ collector: false });
+    await collector.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should only depend on modules that run in browsers", () => {
+    runtime = new InlineDebuggerBrowserRuntime({ collector: false });
+    const seen = new Set<string>();
+    const visit = (filePath: string) => {
+      seen.add(filePath);
+      for (const dependency of importsOf(filePath)) {
+        expect(builtinModules).not.toContain(dependency.replace(/^node:/, ""));
+        if (path.isAbsolute(dependency) && !seen.has(dependency)) {
+          visit(dependency);
+        }
+      }
+    };
+    visit(path.join(__dirname, "../runtime-browser.ts"));
+
+    expect([...seen].map((file) => path.basename(file)).sort()).toEqual([
+      "context.ts",
+      "core.ts",
+      "events.ts",
+      "format.ts",
+      "frames.ts",
+      "redact.ts",
+      "runtime-browser.ts",
+      "sampling.ts",
+      "serializer.ts",
+      "snapshot.ts",
+      "store.ts",
+      "timing.ts",
+      "types.ts",
+    ]);
+  });
+
+  test("should send entries to the collector, which writes the usual output file", async () => {
+    runtime = new InlineDebuggerBrowserRuntime({
+      collector: collector.url,
+      outputFile: "app.debug.json",
+    });
+
+    expect(watch(1)).toEqual({ i: 1 });
+    watch(2);
+    await runtime.flush();
+
+    const entries = readDebugData(path.join(dir, "app.debug.json"));
+    expect(entries).toEqual([
+      expect.objectContaining({
+        variable: "i",
+        called: "{ i: 1 }",
+        value: expect.objectContaining({ type: "object" }),
+        filePath: "/project/src/App.tsx",
+        line: 7,
+        seq: 0,
+      }),
+      expect.objectContaining({ called: "{ i: 2 }", seq: 1 }),
+    ]);
+    expect(entries[0]).not.toHaveProperty("pid");
+    expect(runtime.getData()).toHaveLength(2);
+  });
+
+  test("should apply the redaction rules of the collector's rc file", async () => {
+    fs.writeFileSync(
+      path.join(dir, ".inline-debuggerrc"),
+      JSON.stringify({
+        redact: { keys: ["*ssn*"], values: ["\\d{3}-\\d{2}-\\d{4}"] },
+      })
+    );
+    const redacting = await startCollector({ port: 0, cwd: dir });
+    try {
+      runtime = new InlineDebuggerBrowserRuntime({
+        collector: redacting.url,
+      });
+      runtime.inlineDebuggerWatch({
+        type: "variable",
+        variable: "customer",
+        called: () => ({
+          name: "Ada",
+          ssn: "123-45-6789",
+          notes: ["Call about 123-45-6789"],
+        }),
+        filePath: "/project/src/App.tsx",
+        line: 3,
+      });
+      runtime.inlineDebuggerWatch({
+        type: "variable",
+        variable: "ssn",
+        called: () => "123-45-6789",
+        filePath: "/project/src/App.tsx",
+        line: 4,
+      });
+      await runtime.flush();
+    } finally {
+      await redacting.close();
+    }
+
+    const [customer, ssn] = readDebugData(path.join(dir, ".debug.data.json"));
+    expect(customer?.called).toBe(
+      '{ name: "Ada", ssn: [REDACTED], notes: ["Call about [REDACTED]"] }'
+    );
+    expect(JSON.stringify(customer?.value)).not.toContain("123-45-6789");
+    expect(ssn).toMatchObject({
+      called: "[REDACTED]",
+      value: { type: "redacted" },
+    });
+    // The page keeps what it recorded, the rc file is only read by the
+    // collector
+    expect(runtime.getData()[0]?.called).toContain("123-45-6789");
+  });
+
+  test("should stream entries over a WebSocket", async () => {
+    (globalThis as any).WebSocket = TestWebSocket;
+    try {
+      runtime = new InlineDebuggerBrowserRuntime({
+        collector: collector.url.replace(/^http/, "ws"),
+      });
+      // Longer than a one-byte frame length
+      runtime.inlineDebuggerWatch({
+        type: "expression",
+        called: () => "x".repeat(300),
+        filePath: "/project/src/App.tsx",
+      });
+      await runtime.flush();
+      watch(3);
+      await runtime.flush();
+
+      const file = path.join(dir, ".debug.data.json");
+      await until(
+        () => fs.existsSync(file) && readDebugData(file).length === 2
+      );
+      expect(readDebugData(file).map((entry) => entry.called)).toEqual([
+        `"${"x".repeat(300)}"`,
+        "{ i: 3 }",
+      ]);
+      expect(TestWebSocket.accepted).toEqual(["valid"]);
+    } finally {
+      delete (globalThis as any).WebSocket;
+    }
+  });
+
+  test("should keep entries in memory while no collector is reachable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const globals = [
+      "inlineDebuggerWatch",
+      "inlineDebuggerCall",
+      "debugLog",
+      "inlineDebugger",
+    ];
+    const previous = Object.fromEntries(
+      globals.map((name) => [name, (globalThis as any)[name]])
+    );
+    try {
+      const closed = await startCollector({ port: 0, cwd: dir });
+      await closed.close();
+      runtime = new InlineDebuggerBrowserRuntime({ collector: closed.url });
+      runtime.setupGlobals();
+
+      watch(1);
+      await runtime.flush();
+      watch(2);
+      await runtime.flush();
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]![0]).toContain(
+        `cannot send entries to ${closed.url}`
+      );
+      expect(
+        globalThis.inlineDebugger.getData().map((entry) => entry.called)
+      ).toEqual(["{ i: 1 }", "{ i: 2 }"]);
+      expect(
+        globalThis.inlineDebugger.getSnapshotData({ root: "/project" })[0]
+      ).toEqual(
+        expect.objectContaining({ filePath: "src/App.tsx", called: "{ i: 1 }" })
+      );
+
+      globalThis.inlineDebugger.clearData();
+      expect(runtime.getData()).toEqual([]);
+    } finally {
+      warn.mockRestore();
+      Object.assign(globalThis, previous);
+    }
+  });
+
+  test("should refuse batches it cannot write", async () => {
+    const post = (body: string) =>
+      fetch(`${collector.url}/entries`, { method: "POST", body });
+
+    const outside = await post(
+      JSON.stringify({ outputFile: "../escape.debug.json", entries: [] })
+    );
+    expect(outside.status).toBe(400);
+    expect(await outside.text()).toContain(
+      'Output file "../escape.debug.json" is outside of'
+    );
+    fs.writeFileSync(path.join(dir, "package.json"), "{}");
+    const other = await post(
+      JSON.stringify({ outputFile: "package.json", entries: [{}] })
+    );
+    expect(other.status).toBe(400);
+    expect(await other.text()).toContain("is not named like debug data");
+    expect(fs.readFileSync(path.join(dir, "package.json"), "utf8")).toBe("{}");
+    expect((await post("{}")).status).toBe(400);
+    expect((await post("not json")).status).toBe(400);
+  });
+
+  test("should only accept pages served from this machine", async () => {
+    const post = (headers: Record<string, string>) =>
+      fetch(`${collector.url}/entries`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain", ...headers },
+        body: JSON.stringify({
+          outputFile: ".debug.data.json",
+          entries: [{ type: "expression", called: "1", filePath: "a.ts" }],
+        }),
+      });
+
+    const evil = await post({ Origin: "https://evil.example" });
+    expect(evil.status).toBe(403);
+    expect(evil.headers.get("access-control-allow-origin")).toBeNull();
+    expect((await post({ Origin: "null" })).status).toBe(403);
+    // A page of evil.example whose domain was rebound to the collector
+    const rebound = await new Promise<number | undefined>((resolve, reject) => {
+      const request = http.request(
+        `${collector.url}/entries`,
+        { method: "POST", headers: { Host: "evil.example:7357" } },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        }
+      );
+      request.on("error", reject);
+      request.end("{}");
+    });
+    expect(rebound).toBe(403);
+    expect(fs.existsSync(path.join(dir, ".debug.data.json"))).toBe(false);
+
+    const local = await post({ Origin: "http://localhost:5173" });
+    expect(local.status).toBe(204);
+    expect(local.headers.get("access-control-allow-origin")).toBe(
+      "http://localhost:5173"
+    );
+    const preflight = await fetch(`${collector.url}/entries`, {
+      method: "OPTIONS",
+      headers: { Origin: "http://127.0.0.1:3000" },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("access-control-allow-origin")).toBe(
+      "http://127.0.0.1:3000"
+    );
+    expect(
+      preflight.headers.get("access-control-allow-private-network")
+    ).toBeNull();
+
+    const listed = await startCollector({
+      port: 0,
+      cwd: dir,
+      origins: ["http://192.168.1.5:3000"],
+    });
+    try {
+      const response = await fetch(`${listed.url}/`, {
+        headers: { Origin: "http://192.168.1.5:3000" },
+      });
+      expect(response.status).toBe(200);
+    } finally {
+      await listed.close();
+    }
+  });
+
+  test("should refuse messages over the size limit", async () => {
+    const small = await startCollector({
+      port: 0,
+      cwd: dir,
+      maxMessageSize: 1000,
+    });
+    (globalThis as any).WebSocket = TestWebSocket;
+    try {
+      const body = JSON.stringify({
+        outputFile: ".debug.data.json",
+        entries: [{ type: "expression", called: "x".repeat(2000) }],
+      });
+      const response = await fetch(`${small.url}/entries`, {
+        method: "POST",
+        body,
+      });
+      expect(response.status).toBe(413);
+
+      const socket = new TestWebSocket(
+        `${small.url.replace(/^http/, "ws")}/entries`
+      );
+      await until(() => socket.readyState === 1);
+      socket.send(body);
+      await until(() => socket.readyState === 3);
+      expect(fs.existsSync(path.join(dir, ".debug.data.json"))).toBe(false);
+    } finally {
+      delete (globalThis as any).WebSocket;
+      await small.close();
+    }
+  });
+
+  test("should queue a bounded number of entries while the collector is unreachable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const closed = await startCollector({ port: 0, cwd: dir });
+      await closed.close();
+      runtime = new InlineDebuggerBrowserRuntime({
+        collector: closed.url,
+        memoryLimit: 3,
+      });
+
+      for (let i = 1; i <= 10; i++) {
+        watch(i);
+      }
+      await runtime.flush();
+      runtime.initialize({ collector: collector.url });
+      await runtime.flush();
+
+      expect(
+        readDebugData(path.join(dir, ".debug.data.json")).map(
+          (entry) => entry.called
+        )
+      ).toEqual(["{ i: 8 }", "{ i: 9 }", "{ i: 10 }"]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
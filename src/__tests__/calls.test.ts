@@ -0,0 +1,177 @@
+import { formatReport } from "../report";
+import { DebugData } from "../types";
+import {
+  configure,
+  double,
+  later,
+  outer,
+  Query,
+  register,
+  Repository,
+  select,
+  total,
+} from "./fixtures/service";
+
+const calls = (): DebugData[] =>
+  global.inlineDebugger
+    .getData()
+    .filter((item) => item.filePath.endsWith("service.ts"));
+
+describe("Function calls", () => {
+  test("should record arguments, return value and duration of every call", () => {
+    total([1, 2]);
+    total([10], { tax: 0.5 });
+
+    const [first, second] = calls();
+    expect(first).toMatchObject({
+      type: "function",
+      variable: "total",
+      called: "3",
+      line: 29,
+      callId: expect.any(Number),
+      duration: expect.any(Number),
+    });
+    expect(first?.args).toEqual({
+      type: "object",
+      constructor: "Object",
+      properties: [
+        {
+          key: "prices",
+          value: {
+            type: "array",
+            length: 2,
+            items: [
+              { type: "number", value: 1 },
+              { type: "number", value: 2 },
+            ],
+          },
+        },
+        { key: "tax", value: { type: "number", value: 0 } },
+      ],
+    });
+    expect(second?.called).toBe("15");
+    expect(second?.callId).not.toBe(first?.callId);
+  });
+
+  test("should record the class of this and promise outcomes", async () => {
+    const repository = Repository.create();
+    await repository.save(1, "Ada");
+    await expect(repository.save(2, "")).rejects.toThrow("Name is required");
+    repository.find(1);
+
+    const [create, saved, rejected, found] = calls();
+    expect(create).toMatchObject({
+      type: "method",
+      variable: "create",
+      thisClass: "Repository",
+      called: "Repository { items: Map(0) {} }",
+    });
+    expect(saved).toMatchObject({
+      variable: "save",
+      thisClass: "Repository",
+      prefix: "Resolved Promise: ",
+      called: "1",
+    });
+    expect(rejected).toMatchObject({
+      prefix: "Rejected Promise: ",
+      called: "Error: Name is required",
+    });
+    expect(found).toMatchObject({ variable: "find", called: `"Ada"` });
+  });
+
+  test("should return thenables as the function returned them", async () => {
+    const query = select("SELECT name FROM users");
+    const thenable = later(3);
+
+    expect(query).toBeInstanceOf(Query);
+    expect(query.sql).toBe("SELECT name FROM users");
+    expect(await query).toEqual(["Ada"]);
+    expect(Object.keys(thenable)).toEqual(["value", "then"]);
+    expect(await thenable).toBe(3);
+    expect(
+      calls().map((item) => [item.variable, item.prefix, item.called])
+    ).toEqual([
+      ["later", "Resolved Promise: ", "3"],
+      ["select", "Resolved Promise: ", `["Ada"]`],
+    ]);
+  });
+
+  test("should record thrown errors and rethrow them", () => {
+    const broken = Object.assign(new Repository(), {
+      items: null,
+    }) as unknown as Repository;
+
+    expect(() => broken.find(1)).toThrow(TypeError);
+
+    const [thrown] = calls();
+    expect(thrown?.prefix).toBe("Threw: ");
+    expect(thrown?.value).toMatchObject({ type: "error", name: "TypeError" });
+  });
+
+  test("should link calls made while another call was running", () => {
+    expect(outer(2)).toBe(5);
+    expect(double(4)).toBe(8);
+
+    const [inner, parent, alone] = calls();
+    expect(inner).toMatchObject({ type: "arrow", variable: "double" });
+    expect(parent).toMatchObject({ type: "function", variable: "outer" });
+    expect(inner?.parentCallId).toBe(parent?.callId);
+    expect(parent?.parentCallId).toBeUndefined();
+    expect(alone?.parentCallId).toBeUndefined();
+  });
+
+  test("should print calls with their arguments", () => {
+    total([1, 2]);
+
+    const [entry] = calls();
+    expect(
+      formatReport([{ ...entry!, duration: 1.5 }], process.cwd())
+    ).toContain("1. [FUNCTION] total(prices: [1, 2], tax: 0) = 3 (1.50ms)");
+  });
+});
+
+describe("Call statements", () => {
+  test("should record the result of marked calls", () => {
+    register(["Ada"], " Bob ");
+    register([]);
+
+    expect(
+      calls()
+        .filter((item) => item.type === "call")
+        .map(({ type, variable, called }) => ({ type, variable, called }))
+    ).toEqual([
+      { type: "call", variable: "names.push", called: "2" },
+      { type: "call", variable: "name?.trim", called: `"Bob"` },
+      { type: "call", variable: "names.push", called: "1" },
+      { type: "call", variable: "name?.trim", called: "undefined" },
+    ]);
+  });
+
+  test("should record the receiver passed through receive", () => {
+    const items = [1, 2];
+
+    global.inlineDebuggerWatch({
+      type: "call",
+      variable: "items.push",
+      filePath: "/project/service.ts",
+      line: 1,
+      called: (receive: <T>(value: T) => T) => receive(items).push(3),
+    });
+
+    const [entry] = global.inlineDebugger
+      .getData()
+      .filter((item) => item.filePath === "/project/service.ts");
+    expect(entry?.called).toBe("3");
+    expect(entry?.receiver).toMatchObject({ type: "array", length: 3 });
+  });
+
+  test("should record values with a then property that is not a method", () => {
+    expect(configure({})).toEqual({ then: 1 });
+
+    expect(
+      calls()
+        .filter((item) => item.type === "call")
+        .map(({ prefix, called }) => ({ prefix, called }))
+    ).toEqual([{ prefix: undefined, called: "{ then: 1 }" }]);
+  });
+});
@@ -0,0 +1,214 @@
+import { formatTree } from "../report";
+import { initializeRuntime } from "../runtime";
+import { DebugData } from "../types";
+import { handle, poll } from "./fixtures/handlers";
+
+const entries = (): DebugData[] => global.inlineDebugger.getData();
+
+const byType = (type: string) => entries().filter((item) => item.type === type);
+
+describe("Async context", () => {
+  test("should tag entries with the span they were recorded in", async () => {
+    await Promise.all([
+      global.inlineDebugger.trace("request 1", () => handle(1)),
+      global.inlineDebugger.trace("request 2", () => handle(2)),
+    ]);
+
+    const spans = byType("span");
+    expect(spans.map((span) => span.variable).sort()).toEqual([
+      "request 1",
+      "request 2",
+    ]);
+    for (const span of spans) {
+      const names = byType("return").filter(
+        (item) => item.contextId === span.contextId
+      );
+      expect(names).toHaveLength(1);
+      expect(names[0]?.called).toContain(`"user-${span.variable!.slice(-1)}"`);
+    }
+  });
+
+  test("should record spans with their caller, result and duration", () => {
+    expect(
+      global.inlineDebugger.trace("outer", () =>
+        global.inlineDebugger.trace("inner", () => 42)
+      )
+    ).toBe(42);
+
+    const [inner, outer] = byType("span");
+    expect(outer).toMatchObject({
+      variable: "outer",
+      called: "42",
+      filePath: __filename,
+      line: 33,
+      start: expect.any(Number),
+      duration: expect.any(Number),
+    });
+    expect(outer).not.toHaveProperty("parentContextId");
+    expect(inner).toMatchObject({
+      variable: "inner",
+      parentContextId: outer!.contextId,
+    });
+  });
+
+  test("should record spans that throw", () => {
+    expect(() =>
+      global.inlineDebugger.trace("failing", () => {
+        throw new Error("Offline");
+      })
+    ).toThrow("Offline");
+
+    expect(byType("span")[0]).toMatchObject({
+      prefix: "Threw: ",
+      called: "Error: Offline",
+    });
+  });
+
+  describe("calls", () => {
+    afterEach(() => {
+      initializeRuntime({ asyncContext: false });
+    });
+
+    test("should lose the parent call after an await by default", async () => {
+      await handle(1);
+
+      const [lookup] = byType("function");
+      expect(lookup).toMatchObject({ variable: "lookup" });
+      expect(lookup?.parentCallId).toBeUndefined();
+    });
+
+    test("should follow the parent call across awaits with asyncContext", async () => {
+      initializeRuntime({ asyncContext: true });
+      await Promise.all([handle(1), handle(2)]);
+
+      const calls = byType("function");
+      const names = byType("return");
+      for (const id of [1, 2]) {
+        const lookup = calls.find(
+          (item) =>
+            item.variable === "lookup" && item.called.includes(`"user-${id}"`)
+        );
+        const parent = calls.find(
+          (item) => item.callId === lookup?.parentCallId
+        );
+        expect(parent).toMatchObject({ variable: "handle" });
+        expect(
+          names.find((item) => item.called.includes(`"user-${id}"`))
+            ?.parentCallId
+        ).toBe(parent?.callId);
+      }
+    });
+  });
+
+  describe("async contexts", () => {
+    afterEach(() => {
+      initializeRuntime({ asyncContext: false });
+    });
+
+    const steps = () => entries().filter((item) => item.variable === "step");
+
+    test("should tell interleaved flows apart with asyncContext", async () => {
+      initializeRuntime({ asyncContext: true });
+      const requests = [1, 2]; //?
+      await Promise.all(requests.map((id) => poll(id)));
+
+      // Steps of both flows alternate
+      expect(steps().map((item) => item.called)).toEqual([
+        `"started 1"`,
+        `"started 2"`,
+        `"waiting 1"`,
+        `"waiting 2"`,
+        `"done 1"`,
+        `"done 2"`,
+      ]);
+      const flows = [1, 2].map((id) =>
+        steps().filter((item) => item.called.includes(String(id)))
+      );
+      for (const [started, waiting, done] of flows) {
+        expect(waiting?.parentAsyncId).toBe(started?.asyncId);
+        expect(done?.parentAsyncId).toBe(waiting?.asyncId);
+      }
+      const ids = flows.flat().map((item) => item.asyncId);
+      expect(new Set(ids).size).toBe(6);
+      // Both flows were started by the test
+      const [caller] = entries().filter((item) => item.variable === "requests");
+      expect(caller?.asyncId).toEqual(expect.any(Number));
+      expect(flows.map(([started]) => started?.parentAsyncId)).toEqual([
+        caller?.asyncId,
+        caller?.asyncId,
+      ]);
+    });
+
+    test("should not tag entries by default", async () => {
+      await poll(1);
+
+      expect(steps()).toHaveLength(3);
+      for (const step of steps()) {
+        expect(step).not.toHaveProperty("asyncId");
+      }
+    });
+  });
+});
+
+describe("Tree report", () => {
+  const entry = (item: Partial<DebugData>): DebugData => ({
+    type: "variable",
+    called: "1",
+    filePath: "/project/src/api.ts",
+    ...item,
+  });
+
+  test("should nest entries under their spans by start time", () => {
+    expect(
+      formatTree(
+        [
+          entry({
+            variable: "a",
+            contextId: 2,
+            parentContextId: 1,
+            timestamp: 3,
+          }),
+          entry({ variable: "b", contextId: 1, timestamp: 4 }),
+          entry({
+            type: "span",
+            variable: "db",
+            called: "2",
+            contextId: 2,
+            parentContextId: 1,
+            start: 2,
+            duration: 1.5,
+            line: 8,
+          }),
+          entry({ variable: "c", timestamp: 5 }),
+          entry({
+            variable: "d",
+            contextId: 3,
+            parentContextId: 1,
+            timestamp: 6,
+          }),
+          entry({
+            type: "span",
+            variable: "request",
+            called: "3",
+            contextId: 1,
+            start: 1,
+            duration: 10,
+            line: 4,
+          }),
+        ],
+
+        "/project"
+      )
+    ).toMatchInlineSnapshot(`
+"🧵 [SPAN] request = 3 (10.0ms) (line 4)
+   🧵 [SPAN] db = 2 (1.50ms) (line 8)
+      a = 1 [src/api.ts]
+   b = 1 [src/api.ts]
+   🧵 [SPAN] #3 = (unfinished)
+      d = 1 [src/api.ts]
+
+Outside of spans:
+   c = 1 [src/api.ts]"
+`);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Account with marked destructuring, assignments and class fields
+ */
+
+interface Owner {
+  id: number;
+  profile: { name: string };
+  roles: string[];
+}
+
+export class Account {
+  balance = 0;
+
+  deposit(amount: number): void {
+    this.balance += amount; //?
+  }
+
+  readonly history: number[] = [this.balance]; //?
+}
+
+export function describeOwner(owner: Owner): string {
+  const {
+    id,
+    profile: { name },
+  } = owner; //?
+  const [primary, ...others] = owner.roles; //?
+
+  let visits = 0;
+  visits++; //?
+
+  return `${id} ${name} ${primary} ${others.length} ${visits}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Cart with sub-expressions marked inline
+ */
+
+export function subtotal(prices: number[], discount: number): number {
+  return prices.reduce((sum, price) => sum + price, 0) /*? gross */ - discount;
+}
+
+export function canShip(weight: number, check: (w: number) => boolean) {
+  return weight > 0 && /*?*/ check(weight);
+}
+
+export function steps(log: number[]): number[] {
+  const step = (n: number) => {
+    log.push(n);
+    return n;
+  };
+  return [step(1), /*?*/ step(2), step(3)];
+}
+
+export async function count(load: () => Promise<string[]>): Promise<number> {
+  return (await load()) /*? loaded */.length;
+}
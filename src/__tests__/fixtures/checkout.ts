@@ -0,0 +1,15 @@
+/**
+ * Totals reached from different callers, the marker records who called
+ */
+
+export function total(prices: number[]): number {
+  return prices.reduce((sum, price) => sum + price, 0); //?stack
+}
+
+export function checkout(cart: { prices: number[] }): number {
+  return total(cart.prices);
+}
+
+export function quote(prices: number[]): number {
+  return total(prices);
+}
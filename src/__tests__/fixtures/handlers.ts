@@ -0,0 +1,31 @@
+/**
+ * Request handlers whose entries interleave across awaits
+ */
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+//?
+export async function lookup(id: number) {
+  await tick();
+  return { id, name: `user-${id}` };
+}
+
+//?
+export async function handle(id: number) {
+  await tick();
+  const user = await lookup(id);
+  return user.name; //?
+}
+
+/**
+ * Unmarked flow recording its steps across awaits
+ */
+export async function poll(id: number) {
+  await tick();
+  let step = `started ${id}`; //?
+  await tick();
+  step = `waiting ${id}`; //?
+  await tick();
+  step = `done ${id}`; //?
+  return step;
+}
@@ -0,0 +1,32 @@
+/**
+ * Orders with conditional markers, only matching hits are recorded
+ */
+
+export function largeOrders(amounts: number[]): number[] {
+  const large: number[] = [];
+  for (const amount of amounts) {
+    large.push(amount); //? if amount > 100
+  }
+  return large;
+}
+
+export function firstItem(orders: { items: string[] }[]) {
+  return orders.map((order) => order.items[0] /*? if $.length > 3 */);
+}
+
+export function sum(orders: { total?: number }[]): number {
+  let result = 0;
+  for (const order of orders) {
+    result += order.total ?? 0; //? if order.total.toFixed(2) === "0.00"
+  }
+  return result;
+}
+
+export function loadCustomers(ids: number[]) {
+  const customers = [];
+  for (const id of ids) {
+    const customer = { id, name: `Customer ${id}` }; //? if customer.id === 42
+    customers.push(customer);
+  }
+  return customers;
+}
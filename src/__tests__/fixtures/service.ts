@@ -0,0 +1,71 @@
+/**
+ * Service with marked functions and methods, every call is recorded
+ */
+
+export class Repository {
+  private items: Map<number, string> = new Map();
+
+  //?
+  async save(id: number, name: string): Promise<number> {
+    if (!name) {
+      throw new Error("Name is required");
+    }
+    this.items.set(id, name);
+    return this.items.size;
+  }
+
+  //?
+  find(id: number): string | undefined {
+    return this.items.get(id);
+  }
+
+  //?
+  static create(): Repository {
+    return new Repository();
+  }
+}
+
+//?
+export function total(prices: number[], { tax = 0 } = {}): number {
+  return prices.reduce((sum, price) => sum + price, 0) * (1 + tax);
+}
+
+export const double = (value: number) => value * 2; //?
+
+//?
+export function outer(value: number): number {
+  return double(value) + 1;
+}
+
+export function register(names: string[], name?: string): string[] {
+  names.push(name ?? "anonymous"); //?
+  name?.trim(); //?
+  return names;
+}
+
+export function configure(options: { then?: number }): { then?: number } {
+  Object.assign(options, { then: 1 }); //?
+  return options;
+}
+
+/**
+ * Promise with state of its own, like the query builders of database clients
+ */
+export class Query<T> extends Promise<T> {
+  public sql: string = "";
+}
+
+//?
+export function select(sql: string): Query<string[]> {
+  const query = new Query<string[]>((resolve) => resolve(["Ada"]));
+  query.sql = sql;
+  return query;
+}
+
+//?
+export function later(value: number): {
+  value: number;
+  then: (resolve: (value: number) => void) => void;
+} {
+  return { value, then: (resolve) => resolve(value) };
+}
@@ -0,0 +1,28 @@
+/**
+ * Timed markers on a sync expression and on awaited promises
+ */
+
+export function busy(ms: number): number {
+  const until = Date.now() + ms;
+  let spins = 0;
+  while (Date.now() < until) spins++;
+  return spins;
+}
+
+export function compute(ms: number): number {
+  const spins = busy(ms); //?time
+  return spins;
+}
+
+export async function wait(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms)); //?time
+}
+
+async function fetchUser(ms: number) {
+  await wait(ms);
+  return { id: 1 };
+}
+
+export async function loadUser(ms: number) {
+  return await fetchUser(ms); //?time
+}
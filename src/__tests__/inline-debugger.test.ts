@@ -5,19 +5,10 @@ describe("Inline Debugger", () => {
     // Run the app with monitoring
     const result = await runApp();
 
-    // Get debug data
-    const debugData = global.inlineDebugger.getData();
-
-    // Convert absolute paths to relative paths for consistent snapshots
-    const normalizedData = debugData.map((item) => ({
-      ...item,
-      filePath: item.filePath.startsWith(process.cwd())
-        ? item.filePath.replace(process.cwd() + "/", "")
-        : item.filePath,
-    }));
-
-    // Snapshot the debug data
-    expect(normalizedData).toMatchSnapshot();
+    // Snapshot the debug data, with paths relative to the project and
+    // without timings, process details and stack traces
+    expect(global.inlineDebugger.getData()).toMatchWatchSnapshot();
+    expect(global.inlineDebugger.getData()).toHaveWatched("powerResult", 125);
 
     // Verify the result structure
     expect(result).toHaveProperty("math");
@@ -0,0 +1,65 @@
+import { DebugData } from "../types";
+import { canShip, count, steps, subtotal } from "./fixtures/cart";
+
+const entries = (): DebugData[] =>
+  global.inlineDebugger
+    .getData()
+    .filter((item) => item.filePath.endsWith("cart.ts"));
+
+describe("Inline markers", () => {
+  test("should record the marked sub-expression at its column", () => {
+    expect(subtotal([10, 20], 5)).toBe(25);
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        type: "expression",
+        label: "gross",
+        called: "30",
+        line: 6,
+        column: 10,
+      }),
+    ]);
+  });
+
+  test("should keep short-circuiting", () => {
+    const check = jest.fn(() => true);
+
+    expect(canShip(0, check)).toBe(false);
+    expect(check).not.toHaveBeenCalled();
+    expect(entries()).toHaveLength(0);
+
+    expect(canShip(2, check)).toBe(true);
+    expect(entries()).toEqual([
+      expect.objectContaining({ variable: "check()", called: "true" }),
+    ]);
+  });
+
+  test("should keep evaluation order and evaluate once", () => {
+    const log: number[] = [];
+
+    expect(steps(log)).toEqual([1, 2, 3]);
+    expect(log).toEqual([1, 2, 3]);
+    expect(entries().map((item) => item.called)).toEqual(["2"]);
+  });
+
+  test("should record what awaited promises resolve to", async () => {
+    expect(await count(async () => ["a", "b"])).toBe(2);
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        label: "loaded",
+        prefix: "Resolved Promise: ",
+        called: '["a", "b"]',
+      }),
+    ]);
+  });
+
+  test("should not leave rejections unhandled", async () => {
+    await expect(
+      count(() => Promise.reject(new Error("Offline")))
+    ).rejects.toThrow("Offline");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(entries()[0]?.prefix).toBe("Rejected Promise: ");
+  });
+});
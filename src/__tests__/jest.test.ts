@@ -0,0 +1,233 @@
+import "../jest-setup";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import InlineDebuggerReporter, { formatCapturedLines } from "../jest-reporter";
+import { getShardPath, mergeShards } from "../shards";
+import { readDebugData } from "../storage";
+import { DebugData } from "../types";
+
+const entry = (testName: string, called: string, line: number): DebugData => ({
+  type: "variable",
+  variable: "total",
+  called,
+  filePath: "/project/src/cart.ts",
+  line,
+  testPath: "/project/src/cart.test.ts",
+  testName,
+});
+
+const root = path.resolve(__dirname, "../..");
+
+/**
+ * Run Jest on test files recording `value` with `//?`, with the runtime in
+ * `setupFilesAfterEnv`, and return the recorded values of every shard
+ */
+const runJest = (dir: string, count: number, args: string[]): string[] => {
+  for (let i = 1; i <= count; i++) {
+    fs.writeFileSync(
+      path.join(dir, `file${i}.test.js`),
+      `test("records ${i}", () => {\n  const value = ${i}; //?\n});\n`
+    );
+  }
+  fs.writeFileSync(
+    path.join(dir, "jest.config.js"),
+    `module.exports = ${JSON.stringify({
+      rootDir: dir,
+      cacheDirectory: path.join(dir, ".cache"),
+      testEnvironment: "node",
+      transform: {
+        "\\.js$": [
+          require.resolve("babel-jest"),
+          {
+            plugins: [path.join(root, "dist/babel-plugin-inline-debugger.js")],
+            babelrc: false,
+            configFile: false,
+          },
+        ],
+      },
+      setupFilesAfterEnv: [path.join(root, "dist/runtime.js")],
+    })};`
+  );
+  const { JEST_WORKER_ID, ...env } = process.env;
+  const result = spawnSync(
+    process.execPath,
+    [require.resolve("jest/bin/jest"), ...args],
+    { cwd: dir, env, encoding: "utf8", timeout: 60000 }
+  );
+  expect(result.stderr).toContain(`Tests:       ${count} passed`);
+
+  return mergeShards(path.join(dir, ".debug.data.json"))
+    .filter((item) => item.variable === "value")
+    .map((item) => item.called)
+    .sort();
+};
+
+describe("Jest integration", () => {
+  test("should tag entries with the running test", () => {
+    let total = 0;
+    {
+      total = 2 + 3; //?
+    }
+
+    expect(total).toBe(5);
+    expect(global.inlineDebugger.getData()).toEqual([
+      expect.objectContaining({
+        variable: "total",
+        called: "5",
+        testPath: __filename,
+        testName: "Jest integration should tag entries with the running test",
+      }),
+    ]);
+  });
+
+  describe("workers", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should write the entries of a test file once it finished", () => {
+      // Shorter than `flushInterval`, and `exit` of the sandboxed `process`
+      // never fires
+      expect(runJest(dir, 1, [])).toEqual(["1"]);
+    }, 60000);
+
+    test("should keep the entries of every test file a worker ran", () => {
+      expect(runJest(dir, 3, ["--maxWorkers=2"])).toEqual(["1", "2", "3"]);
+      // A later run replaces the shards of earlier ones instead of adding to
+      // them
+      runJest(dir, 3, ["--runInBand"]);
+      const shard = getShardPath(
+        path.join(dir, ".debug.data.json"),
+        "worker-1"
+      );
+      expect(
+        readDebugData(shard)
+          .filter((item) => item.variable === "value")
+          .map((item) => item.called)
+          .sort()
+      ).toEqual(["1", "2", "3"]);
+    }, 120000);
+  });
+
+  describe("reporter", () => {
+    let dir: string;
+    let outputFile: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+      outputFile = path.join(dir, "out.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const failure = (title: string) =>
+      `\u001b[1m\u001b[31m  ● ${title}\u001b[39m\u001b[22m\n\n    expect(received).toBe(expected)\n\n      at Object.<anonymous> (src/cart.test.ts:9:5)\n`;
+
+    test("should show what was recorded below the failure of each test", () => {
+      fs.writeFileSync(
+        getShardPath(outputFile, "worker-1"),
+        JSON.stringify([
+          entry("cart adds items", "3", 6),
+          entry("cart applies discounts", "8", 12),
+          entry("cart passes", "1", 20),
+          { ...entry("cart adds items", "4", 6), testPath: "/elsewhere.ts" },
+        ])
+      );
+      const reporter = new InlineDebuggerReporter({}, { outputFile });
+      const result = {
+        testFilePath: "/project/src/cart.test.ts",
+        failureMessage: `${failure("cart › adds items")}\n${failure(
+          "cart › applies discounts"
+        )}`,
+        testResults: [
+          { fullName: "cart adds items", failureMessages: ["Error"] },
+          { fullName: "cart passes", failureMessages: [] },
+          { fullName: "cart applies discounts", failureMessages: ["Error"] },
+        ],
+      };
+
+      reporter.onTestResult({}, result);
+
+      expect(result.failureMessage.replace(/\u001b\[[\d;]*m/g, ""))
+        .toMatchInlineSnapshot(`
+"  ● cart › adds items
+
+    expect(received).toBe(expected)
+
+      at Object.<anonymous> (src/cart.test.ts:9:5)
+
+    📊 Captured by //? in this test:
+      total = 3 (line 6) [/project/src/cart.ts]
+
+  ● cart › applies discounts
+
+    expect(received).toBe(expected)
+
+      at Object.<anonymous> (src/cart.test.ts:9:5)
+
+    📊 Captured by //? in this test:
+      total = 8 (line 12) [/project/src/cart.ts]
+"
+`);
+    });
+
+    test("should leave passing files alone", () => {
+      const reporter = new InlineDebuggerReporter({}, { outputFile });
+      const result = {
+        testFilePath: "/project/src/cart.test.ts",
+        failureMessage: null,
+        testResults: [{ fullName: "cart passes", failureMessages: [] }],
+      };
+
+      reporter.onTestResult({}, result);
+
+      expect(result.failureMessage).toBeNull();
+    });
+
+    test("should clear output when the run starts and merge shards when it completes", () => {
+      fs.writeFileSync(outputFile, JSON.stringify([entry("old", "0", 1)]));
+      fs.writeFileSync(getShardPath(outputFile, "worker-1"), "[]");
+      const reporter = new InlineDebuggerReporter({}, { outputFile });
+
+      reporter.onRunStart();
+      expect(fs.readdirSync(dir)).toEqual([]);
+
+      fs.writeFileSync(
+        getShardPath(outputFile, "worker-1"),
+        JSON.stringify([{ ...entry("a", "1", 1), timestamp: 2 }])
+      );
+      fs.writeFileSync(
+        getShardPath(outputFile, "worker-2"),
+        JSON.stringify([{ ...entry("b", "2", 1), timestamp: 1 }])
+      );
+      reporter.onRunComplete();
+
+      expect(fs.readdirSync(dir)).toEqual(["out.json"]);
+      expect(readDebugData(outputFile).map((item) => item.testName)).toEqual([
+        "b",
+        "a",
+      ]);
+    });
+
+    test("should limit the entries shown per test", () => {
+      const entries = [1, 2, 3].map((line) => entry("t", String(line), line));
+
+      expect(formatCapturedLines(entries, 2, "/project")).toEqual([
+        "    📊 Captured by //? in this test:",
+        "      total = 1 (line 1) [src/cart.ts]",
+        "      total = 2 (line 2) [src/cart.ts]",
+        "      … and 1 more, see inline-debugger report",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { main } from "../cli";
+import { followFile, followSocket } from "../live";
+import { InlineDebuggerRuntime } from "../runtime";
+import { DebugStorage } from "../storage";
+import { DebugData } from "../types";
+
+const entry = (line: number): DebugData => ({
+  type: "variable",
+  variable: "i",
+  called: String(line),
+  filePath: "/project/loop.ts",
+  line,
+});
+
+/**
+ * Wait until `check` passes, polling every few ms
+ */
+const until = async (check: () => boolean, timeout = 2000) => {
+  const end = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > end) {
+      throw new Error("Timed out");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe("Live entries", () => {
+  let dir: string;
+  let runtime: InlineDebuggerRuntime;
+
+  const watch = (i: number) =>
+    runtime.inlineDebuggerWatch({
+      type: "variable",
+      variable: "i",
+      called: () => ({ i }),
+      filePath: "/project/loop.ts",
+      line: 3,
+    });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    runtime = new InlineDebuggerRuntime({
+      outputFile: path.join(dir, "out.json"),
+      shard: false,
+    });
+  });
+
+  afterEach(() => {
+    runtime.initialize({ socket: "" });
+    runtime.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should call listeners with every entry until they unsubscribe", () => {
+    const listener = jest.fn();
+    const unsubscribe = runtime.on("entry", listener);
+    runtime.on("entry", () => {
+      throw new Error("Broken listener");
+    });
+
+    expect(watch(1)).toEqual({ i: 1 });
+    unsubscribe();
+    watch(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      variable: "i",
+      called: "{ i: 1 }",
+      value: { type: "object" },
+      seq: expect.any(Number),
+    });
+    expect(() => runtime.on("exit" as "entry", listener)).toThrow(
+      'Unknown event "exit", only "entry" is emitted.'
+    );
+  });
+
+  test("should iterate over entries as they are written", async () => {
+    const seen: string[] = [];
+    const reading = (async () => {
+      for await (const item of runtime) {
+        seen.push(item.called);
+        if (seen.length === 3) break;
+      }
+    })();
+
+    watch(1);
+    watch(2);
+    await Promise.resolve();
+    watch(3);
+    watch(4);
+    await reading;
+
+    expect(seen).toEqual(["{ i: 1 }", "{ i: 2 }", "{ i: 3 }"]);
+  });
+
+  test("should stream entries to socket clients", async () => {
+    const socketPath = path.join(dir, "debug.sock");
+    runtime.initialize({ socket: socketPath });
+    await until(() => fs.existsSync(socketPath));
+
+    const received: DebugData[] = [];
+    const closed = jest.fn();
+    const stop = followSocket(
+      socketPath,
+      (entries) => received.push(...entries),
+      closed
+    );
+    // The server learns about the client asynchronously
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    watch(1);
+    watch(2);
+
+    await until(() => received.length === 2);
+    expect(received.map((item) => item.called)).toEqual([
+      "{ i: 1 }",
+      "{ i: 2 }",
+    ]);
+
+    stop();
+    await until(() => closed.mock.calls.length === 1);
+    expect(closed).toHaveBeenCalledWith(undefined);
+  });
+
+  test("should report sockets nobody serves", async () => {
+    const closed = jest.fn();
+    followSocket(path.join(dir, "missing.sock"), () => {}, closed);
+
+    await until(() => closed.mock.calls.length === 1);
+    expect(closed.mock.calls[0][0]).toMatchObject({ code: "ENOENT" });
+  });
+
+  test("should follow entries appended to an output file", async () => {
+    const filePath = path.join(dir, "out.ndjson");
+    const storage = new DebugStorage(filePath, { format: "ndjson" });
+    storage.append(entry(1));
+    storage.flush();
+
+    const received: DebugData[] = [];
+    const stop = followFile(filePath, (entries) => received.push(...entries), {
+      interval: 10,
+    });
+    try {
+      storage.append(entry(2));
+      storage.append(entry(3));
+      storage.flush();
+      await until(() => received.length === 2);
+      expect(received.map((item) => item.line)).toEqual([2, 3]);
+
+      // Cleared files start over
+      storage.clear();
+      storage.append(entry(4));
+      storage.flush();
+      await until(() => received.length === 3);
+      expect(received[2]?.line).toBe(4);
+    } finally {
+      stop();
+      storage.close();
+    }
+  });
+
+  test("should print new entries matching the filters with tail", async () => {
+    const filePath = path.join(dir, "out.json");
+    const storage = new DebugStorage(filePath);
+    storage.append(entry(1));
+    storage.flush();
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    // The command follows until the process ends, its timer is stopped here
+    const setInterval = jest.spyOn(global, "setInterval");
+
+    try {
+      expect(
+        main(["tail", filePath, "--all", "--interval", "10", "--line", "2-"])
+      ).toBe(0);
+      storage.append(entry(2));
+      storage.flush();
+
+      await until(() => log.mock.calls.length === 1);
+      expect(log).toHaveBeenCalledWith(`i = 2 (line 2) [${entry(2).filePath}]`);
+      expect(error).toHaveBeenCalledWith(
+        `Following ${filePath}, press Ctrl+C to stop`
+      );
+    } finally {
+      setInterval.mock.results.forEach(({ value }) => clearInterval(value));
+      setInterval.mockRestore();
+      storage.close();
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,230 @@
+import { parseMarker } from "../marker";
+import { formatDetails, formatEntry } from "../report";
+import { DebugData } from "../types";
+import {
+  firstItem,
+  largeOrders,
+  loadCustomers,
+  sum,
+} from "./fixtures/orders";
+
+const watch = (data: Partial<DebugData>, value: unknown): DebugData => {
+  global.inlineDebuggerWatch({
+    type: "variable",
+    variable: "user",
+    filePath: "/project/marker.ts",
+    line: 1,
+    called: () => value,
+    ...data,
+  });
+
+  return global.inlineDebugger
+    .getData()
+    .filter((item) => item.filePath === "/project/marker.ts")
+    .pop()!;
+};
+
+describe("Markers", () => {
+  test("should parse labels, projections and options", () => {
+    expect(parseMarker("?")).toEqual({});
+    expect(parseMarker("? total price")).toEqual({ label: "total price" });
+    expect(parseMarker("? $.items.length")).toEqual({
+      projection: "$.items.length",
+    });
+    expect(parseMarker("? $el")).toEqual({ label: "$el" });
+    expect(parseMarker("?.")).toEqual({ detail: "compact" });
+    expect(parseMarker("?+ $")).toEqual({ detail: "full", projection: "$" });
+    expect(parseMarker("?json config")).toEqual({
+      format: "json",
+      label: "config",
+    });
+    expect(parseMarker("?.table")).toEqual({
+      detail: "compact",
+      format: "table",
+    });
+  });
+
+  test("should parse conditions", () => {
+    expect(parseMarker("? if user.id === 42")).toEqual({
+      condition: "user.id === 42",
+    });
+    expect(parseMarker("?. if $ > 1")).toEqual({
+      detail: "compact",
+      condition: "$ > 1",
+    });
+    expect(parseMarker("? iffy")).toEqual({ label: "iffy" });
+    expect(() => parseMarker("? if")).toThrow(
+      `Marker condition is missing after "if".`
+    );
+  });
+
+  test("should reject unknown and conflicting options", () => {
+    expect(() => parseMarker("?yaml")).toThrow(
+      `Unknown marker option "yaml". Valid options are: ., +, json, table, time, stack, stack<N>, first<N>, last<N>, every<N>, rate<N>/<interval>.`
+    );
+    expect(() => parseMarker("?.+")).toThrow(
+      `Marker options "." and "+" cannot be combined.`
+    );
+    expect(() => parseMarker("?jsontable")).toThrow(
+      `Marker options "json" and "table" cannot be combined.`
+    );
+    expect(() => parseMarker("?first5every2")).toThrow(
+      `Marker sampling options cannot be combined.`
+    );
+    expect(() => parseMarker("?rate5/0s")).toThrow(
+      `Sampling option "interval" must be a positive integer, got 0.`
+    );
+  });
+
+  test("should parse sampling options", () => {
+    expect(parseMarker("?first10")).toEqual({ sample: { first: 10 } });
+    expect(parseMarker("?.last3 total")).toEqual({
+      detail: "compact",
+      sample: { last: 3 },
+      label: "total",
+    });
+    expect(parseMarker("?every100")).toEqual({ sample: { every: 100 } });
+    expect(parseMarker("?rate5/2s")).toEqual({
+      sample: { rate: 5, interval: 2000 },
+    });
+    expect(parseMarker("?rate1/250")).toEqual({
+      sample: { rate: 1, interval: 250 },
+    });
+  });
+
+  test("should parse the time option", () => {
+    expect(parseMarker("?time")).toEqual({ time: true });
+    expect(parseMarker("?.time fetch")).toEqual({
+      detail: "compact",
+      time: true,
+      label: "fetch",
+    });
+    expect(parseMarker("? time")).toEqual({ label: "time" });
+  });
+
+  test("should parse the stack option", () => {
+    expect(parseMarker("?stack")).toEqual({ stack: true });
+    expect(parseMarker("?stack5 caller")).toEqual({
+      stack: 5,
+      label: "caller",
+    });
+    expect(() => parseMarker("?stack0")).toThrow(
+      "Marker stack depth must be a positive integer, got 0."
+    );
+  });
+
+  test("should record projections under the projected name", () => {
+    const entry = watch(
+      {
+        projection: "$.items.length",
+        project: ($: { items: unknown[] }) => $.items.length,
+      },
+      { items: [1, 2, 3] }
+    );
+
+    expect(entry.called).toBe("3");
+    expect(entry).not.toHaveProperty("project");
+    expect(formatEntry(entry)).toBe("user.items.length = 3");
+  });
+
+  test("should record failing projections without throwing", () => {
+    const entry = watch(
+      {
+        projection: "$.items.length",
+        project: ($: any) => $.items.length,
+      },
+      {}
+    );
+
+    expect(entry.prefix).toBe("Projection failed: ");
+    expect(entry.value).toMatchObject({ type: "error", name: "TypeError" });
+  });
+
+  test("should keep only the preview in compact detail", () => {
+    const entry = watch({ detail: "compact", label: "user" }, { id: 1 });
+
+    expect(entry.called).toBe("{ id: 1 }");
+    expect(entry).not.toHaveProperty("value");
+  });
+
+  test("should lift the depth limit in full detail", () => {
+    const deep = JSON.parse(`${'{"a":'.repeat(10)}{ "i": 1 }${"}".repeat(10)}`);
+
+    expect(watch({}, deep).called).toContain("[Object]");
+    expect(watch({ detail: "full" }, deep).called).toContain("{ i: 1 }");
+  });
+
+  test("should render json and table hints", () => {
+    const users = [
+      { name: "Ada", age: 36 },
+      { name: "Linus", admin: true },
+    ];
+
+    expect(formatDetails(watch({ format: "table" }, users))).toEqual([
+      "┌─────────┬─────────┬─────┬───────┐",
+      "│ (index) │ name    │ age │ admin │",
+      "├─────────┼─────────┼─────┼───────┤",
+      `│ 0       │ "Ada"   │ 36  │       │`,
+      `│ 1       │ "Linus" │     │ true  │`,
+      "└─────────┴─────────┴─────┴───────┘",
+    ]);
+    expect(formatDetails(watch({ format: "json" }, { id: 1 }))).toEqual([
+      "{",
+      `  "id": 1`,
+      "}",
+    ]);
+  });
+});
+
+describe("Conditions", () => {
+  const entries = (): DebugData[] =>
+    global.inlineDebugger
+      .getData()
+      .filter((item) => item.filePath.endsWith("orders.ts"));
+
+  test("should only record hits where the condition holds", () => {
+    largeOrders([50, 150, 80, 300]);
+
+    expect(entries()).toEqual([
+      expect.objectContaining({ called: "2", condition: "amount > 100" }),
+      expect.objectContaining({ called: "4", condition: "amount > 100" }),
+    ]);
+    expect(entries()[0]).not.toHaveProperty("when");
+  });
+
+  test("should bind the watched value to $", () => {
+    firstItem([{ items: ["pen"] }, { items: ["paper", "ink"] }]);
+    firstItem([{ items: ["stapler"] }]);
+
+    expect(entries().map((item) => item.called)).toEqual([
+      '"paper"',
+      '"stapler"',
+    ]);
+  });
+
+  test("should record failing conditions as condition entries", () => {
+    expect(sum([{ total: 5 }, {}])).toBe(5);
+
+    const [failed, ...rest] = entries();
+    expect(rest).toHaveLength(0);
+    expect(failed).toMatchObject({
+      type: "condition",
+      variable: "result",
+      prefix: "Condition failed: ",
+      value: { type: "error", name: "TypeError" },
+    });
+    expect(formatEntry(failed!)).toMatch(
+      /^\[CONDITION\] result = Condition failed: TypeError: Cannot read properties of undefined/
+    );
+  });
+
+  test("should bind the declared name in conditions of declarations", () => {
+    expect(loadCustomers([7, 42])).toHaveLength(2);
+
+    expect(
+      entries()
+        .filter((item) => item.variable === "customer")
+        .map((item) => [item.type, item.called])
+    ).toEqual([["variable", `{ id: 42, name: "Customer 42" }`]]);
+  });
+});
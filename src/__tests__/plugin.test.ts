@@ -1,13 +1,22 @@
 import { transformSync } from "@babel/core";
 
-const transpile = (code: string) => {
+const transpile = (
+  code: string,
+  pluginOptions: Record<string, unknown> = {},
+  filename = "/project/test.ts",
+  sourceType: "module" | "script" = "module"
+) => {
   const result = transformSync(code, {
-    filename: "test.ts",
+    filename,
+    sourceType,
+    cwd: "/project",
+    babelrc: false,
+    configFile: false,
     presets: [
-      ["@babel/preset-env", { targets: { node: "current" } }],
-      "@babel/preset-typescript",
+      [require.resolve("@babel/preset-env"), { targets: { node: "current" } }],
+      require.resolve("@babel/preset-typescript"),
     ],
-    plugins: ["dist/babel-plugin-inline-debugger.js"],
+    plugins: [[require.resolve("../../dist/babel-plugin-inline-debugger.js"), pluginOptions]],
   });
 
   return result?.code || "";
@@ -25,26 +34,557 @@ describe("Babel Plugin", () => {
 ).toMatchInlineSnapshot(`
 ""use strict";
 
-const a = (inlineDebuggerWatch({
+const a = inlineDebuggerWatch({
   type: "variable",
-  filePath: "/Users/isolomakha/Projects/inline-debugger/test.ts",
+  filePath: "/project/test.ts",
   line: 2,
   called: () => {
     return 5;
   },
+  column: 13,
+  endLine: 2,
+  endColumn: 18,
   variable: "a"
-}), 5); //?
-const b = (inlineDebuggerWatch({
-  type: "variable",
-  filePath: "/Users/isolomakha/Projects/inline-debugger/test.ts",
-  line: 3,
-  called: () => {
-    return 3;
-  },
-  variable: "b"
-}), 3);
+}); //?
+const b = 3;
 const sum = a + b;
 console.log(sum);"
 `);
   });
+
+  describe("options", () => {
+    const code = `
+      const a = 5; //?
+
+      console.log(a); //?
+    `;
+
+    test("should reject unknown option keys", () => {
+      expect(() => transpile(code, { outFile: "x.json" })).toThrow(
+        /Unknown option "outFile"/
+      );
+    });
+
+    test("should reject unknown instrument kinds", () => {
+      expect(() => transpile(code, { instrument: ["loop"] })).toThrow(
+        /Unknown instrument kind "loop"/
+      );
+    });
+
+    test("should leave code untouched when disabled", () => {
+      expect(transpile(code, { enabled: false })).not.toContain(
+        "inlineDebuggerWatch"
+      );
+      expect(transpile(code, { enableDebugger: false })).not.toContain(
+        "inlineDebuggerWatch"
+      );
+    });
+
+    test("should only instrument files matching include globs", () => {
+      const options = { include: ["packages/*/src/**"] };
+
+      expect(
+        transpile(code, options, "/project/packages/core/src/deep/a.ts")
+      ).toContain("inlineDebuggerWatch");
+      expect(transpile(code, options, "/project/vendor/a.ts")).not.toContain(
+        "inlineDebuggerWatch"
+      );
+    });
+
+    test("should skip files matching exclude globs", () => {
+      const options = { exclude: "**/*.{spec,test}.ts" };
+
+      expect(transpile(code, options, "/project/src/a.test.ts")).not.toContain(
+        "inlineDebuggerWatch"
+      );
+      expect(transpile(code, options, "/project/src/a.ts")).toContain(
+        "inlineDebuggerWatch"
+      );
+    });
+
+    test("should only instrument selected node kinds", () => {
+      const output = transpile(code, { instrument: ["log"] });
+
+      expect(output).not.toContain("inlineDebuggerWatch");
+      expect(output).toContain("debugLog");
+    });
+
+    test("should forward outputFile to runtime calls", () => {
+      const output = transpile(code, { outputFile: "custom.json" });
+
+      expect(output).toContain(`outputFile: "custom.json"`);
+      expect(output.match(/outputFile/g)).toHaveLength(2);
+    });
+  });
+
+  describe("runtime injection", () => {
+    const code = `
+      const debugLog = () => "local";
+
+      const a = 5; //?
+
+      console.log(a, debugLog()); //?
+    `;
+
+    test("should import the runtime once under unique names in ES modules", () => {
+      const output = transpile(
+        code,
+        { injectRuntime: true },
+        "/project/test.js"
+      );
+
+      expect(output).toContain(
+        `var _runtime = require("babel-plugin-inline-debugger/dist/runtime");`
+      );
+      expect(output.match(/require\(/g)).toHaveLength(1);
+      expect(output).toContain("(0, _runtime.inlineDebuggerWatch)({");
+      expect(output).toContain("(0, _runtime.debugLog)(console.log, {");
+      expect(output).toContain(`const debugLog = () => "local";`);
+    });
+
+    test("should require the runtime in CommonJS scripts", () => {
+      const output = transpile(
+        code,
+        { injectRuntime: true, runtimeModule: "@acme/debug-runtime" },
+        "/project/test.js",
+        "script"
+      );
+
+      expect(output).toContain(
+        `var _debugLog = require("@acme/debug-runtime").debugLog;`
+      );
+      expect(output).toContain(
+        `var _inlineDebuggerWatch = require("@acme/debug-runtime").inlineDebuggerWatch;`
+      );
+      expect(output).toContain("_inlineDebuggerWatch({");
+      expect(output).toContain("_debugLog(console.log, {");
+    });
+
+    test("should not import the runtime into files without markers", () => {
+      const output = transpile(
+        "const a = 5;",
+        { injectRuntime: true },
+        "/project/test.js"
+      );
+
+      expect(output).not.toContain("require(");
+    });
+  });
+
+  describe("positions", () => {
+    test("should record 1-based start and end columns", () => {
+      const output = transpile("const total = 1 + 2; //?\n");
+
+      expect(output).toContain("line: 1,");
+      expect(output).toContain("column: 7,");
+      expect(output).toContain("endLine: 1,");
+      expect(output).toContain("endColumn: 20,");
+    });
+
+    test("should map positions through an input source map", () => {
+      // Compile TypeScript the way a build step would, shifting every line
+      const compiled = transformSync(
+        [
+          "type User = { name: string };",
+          "",
+          'const user: User = { name: "Ada" };',
+          'const greeting = "Hi " + user.name; //?',
+        ].join("\n"),
+        {
+          filename: "/project/src/greet.ts",
+          sourceFileName: "../src/greet.ts",
+          cwd: "/project",
+          babelrc: false,
+          configFile: false,
+          sourceMaps: true,
+          presets: [require.resolve("@babel/preset-typescript")],
+          plugins: [
+            ({ types: t }: typeof import("@babel/core")) => ({
+              visitor: {
+                Program(path: any) {
+                  path.unshiftContainer(
+                    "body",
+                    t.expressionStatement(t.stringLiteral("banner"))
+                  );
+                },
+              },
+            }),
+          ],
+        }
+      );
+
+      const output =
+        transformSync(compiled?.code ?? "", {
+          filename: "/project/dist/greet.js",
+          cwd: "/project",
+          babelrc: false,
+          configFile: false,
+          inputSourceMap: compiled?.map ?? undefined,
+          plugins: [require.resolve("../../dist/babel-plugin-inline-debugger.js")],
+        })?.code ?? "";
+
+      expect(output).toContain(`filePath: "/project/src/greet.ts",`);
+      expect(output).toContain("line: 4,");
+      expect(output).toContain("column: 7,");
+    });
+  });
+
+  describe("markers at the end of a line", () => {
+    // Babel also attaches them to the statement on the next line
+    const watches = (code: string) =>
+      transpile(code).match(/inlineDebugger(Watch|Call)\(/g)?.length ?? 0;
+
+    test("should not mark declarations on the next line", () => {
+      expect(
+        watches(`
+          const total = 2 + 3; //?
+          let count = 0;
+          const { id } = user; //?
+          const [first] = items;
+          count = total; //?
+          count++;
+        `)
+      ).toBe(3);
+    });
+
+    test("should not mark calls on the next line", () => {
+      expect(
+        watches(`
+          save(user); //?
+          expect(user.id).toBe(1);
+          items.push(1); //? $ + 1
+          log(items);
+        `)
+      ).toBe(2);
+    });
+
+    test("should not mark functions on the next line", () => {
+      const output = transpile(`
+        const names = list(); //? $.length
+        async function load() { return 5; }
+        class Store {
+          items = []; //?
+          find(id) { return this.items[id]; }
+        }
+      `);
+
+      expect(output).not.toContain("inlineDebuggerCall");
+      expect(output.match(/inlineDebuggerWatch\(/g)).toHaveLength(2);
+      expect(output).toContain("return 5;");
+    });
+  });
+
+  describe("functions", () => {
+    test("should route calls of marked methods through the runtime", () => {
+      const output = transpile(`
+        const save = "unrelated";
+        class Store {
+          //?
+          save(item: string, ...rest: string[]) {
+            return this.items.push(item, ...rest);
+          }
+        }
+      `);
+
+      expect(output).toContain("return inlineDebuggerCall({");
+      expect(output).toContain(`variable: "save",`);
+      expect(output).toContain("return this.items.push(item, ...rest);");
+      expect(output).toMatch(/args: \{\s+item,\s+rest\s+\}/);
+      expect(output).toContain("self: () => this");
+      // The method is no longer confused with an outer binding of its name
+      expect(output).not.toContain("return save;");
+    });
+
+    test("should accept a marker at the end of the opening line", () => {
+      const output = transpile(
+        "function total(a, b) { //?\n  return a + b;\n}\n"
+      );
+
+      expect(output).toContain(`type: "function",`);
+      expect(output).not.toContain(`type: "return",`);
+    });
+
+    test("should keep async arrow functions async and without this", () => {
+      const output = transpile(
+        "const load = async (id) => await fetch(id); //?\n"
+      );
+
+      expect(output).toContain("called: async () => await fetch(id),");
+      expect(output).toContain(`variable: "load",`);
+      expect(output).not.toContain("self:");
+    });
+
+    test("should leave generators alone", () => {
+      const output = transpile("//?\nfunction* ids() {\n  yield 1;\n}\n");
+
+      expect(output).not.toContain("inlineDebuggerCall");
+    });
+  });
+
+  describe("expression statements", () => {
+    test("should replace marked expressions by their watch", () => {
+      const output = transpile(`
+        2 + 3; //?
+        user.name; //?
+      `);
+
+      expect(output.match(/inlineDebuggerWatch\(/g)).toHaveLength(2);
+      expect(output).toContain("return 2 + 3;");
+      expect(output).toContain("return user.name;");
+      expect(output).not.toMatch(/\}\), (2 \+ 3|user\.name)\)/);
+    });
+  });
+
+  describe("call statements", () => {
+    test("should watch marked calls once, keeping this and optional calls", () => {
+      const output = transpile(`
+        class Cart {
+          add(item) {
+            this.items.push(item); //?
+            this.onChange?.(item); //?
+            console.log(item); //?
+          }
+        }
+      `);
+
+      expect(output).toContain("called: () => this.items.push(item),");
+      expect(output).toContain(`variable: "this.items.push"`);
+      expect(output).toContain("called: () => this.onChange?.(item),");
+      expect(output).toContain(`type: "log",`);
+      expect(output.match(/inlineDebuggerWatch\(/g)).toHaveLength(2);
+    });
+
+    test("should pass receivers through receive with captureReceiver", () => {
+      const output = transpile(
+        `
+          list.push(1); //?
+          api?.users.get(1); //?
+          class Admin extends User {
+            save() {
+              super.save(); //?
+            }
+          }
+        `,
+        { captureReceiver: true },
+        "/project/test.ts",
+        "script"
+      );
+
+      expect(output).toContain("called: _receive => _receive(list).push(1),");
+      // Parts of optional chains and super stay untouched
+      expect(output).toContain("called: () => api?.users.get(1),");
+      expect(output).toContain("called: () => super.save(),");
+    });
+
+    test("should skip calls that await", () => {
+      const output = transpile(
+        "async function run() {\n  save(await load()); //?\n}\n"
+      );
+
+      expect(output).not.toContain(`type: "call"`);
+    });
+  });
+
+  describe("awaits", () => {
+    test("should watch the awaited promise once", () => {
+      const output = transpile(`
+        async function run() {
+          await save(); //?
+          const user = await load(); //?
+          return await check(user); //?
+        }
+      `);
+
+      expect(output).toContain("await inlineDebuggerWatch({");
+      expect(output).toContain(`type: "await",`);
+      expect(output).toContain(`variable: "user"`);
+      expect(output).toContain(`type: "return",`);
+      expect(output).toContain("called: () => save(),");
+      expect(output).toContain("called: () => load(),");
+      expect(output).toContain("called: () => check(user),");
+      expect(output.match(/load\(\)/g)).toHaveLength(1);
+    });
+
+    test("should skip statements that await deeper inside", () => {
+      const output = transpile(`
+        async function run() {
+          const size = (await load()).length; //?
+          return (await load()).length; //?
+        }
+      `);
+
+      expect(output).not.toContain("inlineDebuggerWatch");
+    });
+  });
+
+  describe("markers", () => {
+    test("should carry labels, options and projections to the runtime", () => {
+      const output = transpile(`
+        const user = load(); //?+json $.profile?.name
+        console.log(user); //?. logged user
+      `);
+
+      expect(output).toContain(`detail: "full",`);
+      expect(output).toContain(`format: "json",`);
+      expect(output).toContain(`projection: "$.profile?.name",`);
+      expect(output).toContain("project: $ => $.profile?.name");
+      expect(output).toContain(`detail: "compact"`);
+      expect(output).toContain(`label: "logged user"`);
+    });
+
+    test("should pass the time option to the runtime", () => {
+      const output = transpile("const user = load(); //?time\n");
+
+      expect(output).toContain("time: true");
+    });
+
+    test("should compile conditions into guards in the local scope", () => {
+      const output = transpile(`
+        for (const user of users) {
+          const name = user.name; //? if user.id === 42
+        }
+      `);
+
+      expect(output).toContain(`condition: "user.id === 42",`);
+      expect(output).toContain("when: $ => user.id === 42");
+      expect(
+        transpile("const user = load(id); //? if user.id === 42\n")
+      ).toContain("when: ($, user = $) => user.id === 42");
+      expect(() => transpile("const a = 1; //? if a ===\n")).toThrow(
+        /Invalid marker "\/\/\? if a ===": Unexpected token/
+      );
+    });
+
+    test("should report invalid markers at the comment", () => {
+      expect(() => transpile("const a = 1; //?yaml\n")).toThrow(
+        `Invalid marker "//?yaml": Unknown marker option "yaml"`
+      );
+      // The code frame underlines the comment
+      expect(() => transpile("const a = 1; //?yaml\n")).toThrow(
+        /> 1 \| const a = 1; \/\/\?yaml\n\s+\| {14}\^{7}/
+      );
+      expect(() => transpile("const a = 1; //? $.items[\n")).toThrow(
+        /Invalid marker "\/\/\? \$\.items\[": Unexpected token/
+      );
+    });
+  });
+
+  describe("bindings", () => {
+    test("should watch destructured names after the declaration", () => {
+      const output = transpile(
+        "export const { id, tags: [first] } = await load(); //?\n"
+      );
+
+      expect(output).toContain("} = await load(); //?");
+      expect(output).toContain("called: () => id,");
+      expect(output).toContain(`binding: "load().id"`);
+      expect(output).toContain("called: () => first,");
+      expect(output).toContain(`binding: "load().tags[0]"`);
+    });
+
+    test("should run assignments once and read their targets after", () => {
+      const output = transpile(`
+        async function run() {
+          total = await compute(); //?
+        }
+        class Counter {
+          increment() {
+            this.count++; //?
+          }
+        }
+        items[next()] = 1; //?
+      `);
+
+      expect(output).toContain("total = await compute(); //?");
+      expect(output).toContain("called: () => total,");
+      expect(output).toContain("this.count++; //?");
+      expect(output).toContain("called: () => this.count,");
+      // Reading the target again would call next() twice
+      expect(output).not.toContain("called: () => items");
+    });
+
+    test("should run class field initializers inside the watch", () => {
+      const output = transpile(`
+        class Cache {
+          #entries = new Map(); //?
+        }
+      `);
+
+      expect(output).toContain("called: () => new Map(),");
+      expect(output).toContain(`variable: "#entries"`);
+      expect(output.match(/new Map\(\)/g)).toHaveLength(1);
+    });
+
+    test("should not take the marker of the next member for a field", () => {
+      const output = transpile(`
+        class Store {
+          items = [];
+
+          //?
+          add(item) {}
+        }
+      `);
+
+      expect(output).toContain("items = [];");
+      expect(output).toContain(`variable: "add"`);
+    });
+  });
+
+  describe("inline markers", () => {
+    test("should watch exactly the marked sub-expression", () => {
+      const output = transpile(`
+        foo(/*?*/ a + b);
+        const names = list.filter(isActive) /*?*/.map(getName);
+        const ok = ready && /*? check */ check();
+      `);
+
+      expect(output).toContain("called: () => a + b,");
+      expect(output).toContain("column: 19,");
+      expect(output).toContain("called: () => list.filter(isActive),");
+      expect(output).toContain(`variable: "list.filter()"`);
+      expect(output).toContain("}) /*?*/.map(getName);");
+      expect(output).toContain("const ok = ready && /*? check */inlineDebuggerWatch");
+      expect(output).toContain(`label: "check"`);
+    });
+
+    test("should take a marker after an arrow function for its body", () => {
+      const output = transpile("orders.map((order) => order.total /*?*/);\n");
+
+      expect(output).toContain("called: () => order.total,");
+      expect(output).not.toContain("called: () => order =>");
+    });
+
+    test("should watch the promise of marked await expressions", () => {
+      const output = transpile(
+        "async function run() {\n  const user = await load() /*?*/;\n}\n"
+      );
+
+      expect(output).toContain("const user = await inlineDebuggerWatch({");
+      expect(output).toContain("called: () => load(),");
+    });
+
+    test("should leave line markers to statements", () => {
+      const output = transpile("const a = 1 + 2; /* ? not a marker */\n");
+
+      expect(output).not.toContain("inlineDebuggerWatch");
+    });
+
+    test("should reject markers that cannot be watched", () => {
+      expect(() => transpile("total /*?*/ = 1;\n")).toThrow(
+        `Invalid marker "/*?*/": only expressions that are read can be watched`
+      );
+      expect(() => transpile("user.save /*?*/ ();\n")).toThrow(
+        "a method cannot be watched apart from its call"
+      );
+      expect(() => transpile("const a = user?.profile /*?*/.name;\n")).toThrow(
+        "part of an optional chain cannot be watched"
+      );
+      expect(() =>
+        transpile("async function run() {\n  save(await load() + 1 /*?*/);\n}\n")
+      ).toThrow("expressions containing await or yield cannot be watched");
+      expect(() => transpile("const a = 1 + /*?yaml*/ 2;\n")).toThrow(
+        `Invalid marker "/*?yaml*/": Unknown marker option "yaml"`
+      );
+    });
+  });
 });
@@ -0,0 +1,130 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { main } from "../cli";
+import { renderHtml, renderSource } from "../render";
+import { serialize } from "../serializer";
+import { DebugData } from "../types";
+
+describe("Render", () => {
+  let dir: string;
+  let filePath: string;
+  let entries: DebugData[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    filePath = path.join(dir, "sum.ts");
+    fs.writeFileSync(
+      filePath,
+      [
+        "let total = 0;",
+        "for (const n of [1, 2]) {",
+        "  total += n; //?",
+        "}",
+        "const user = { name: '<b>John</b>' }; //?",
+      ].join("\n")
+    );
+    entries = [
+      { type: "expression", called: "1", filePath, line: 3 },
+      { type: "expression", called: "3", filePath, line: 3 },
+      {
+        type: "variable",
+        variable: "user",
+        called: `{ name: "<b>John</b>" }`,
+        value: serialize({ name: "<b>John</b>" }),
+        filePath,
+        line: 5,
+      },
+    ];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should append captured values to marked source lines", () => {
+    expect(renderSource(entries, { cwd: dir })).toMatchInlineSnapshot(`
+"📁 sum.ts
+1  let total = 0;
+2  for (const n of [1, 2]) {
+3    total += n; //? 1 | 3 (2 hits)
+4  }
+5  const user = { name: '<b>John</b>' }; //? user = { name: "<b>John</b>" }"
+`);
+  });
+
+  test("should tell apart hits of different columns on one line", () => {
+    const output = renderSource(
+      [
+        { type: "expression", called: "1", filePath, line: 3, column: 3 },
+        { type: "expression", called: "2", filePath, line: 3, column: 12 },
+      ],
+      { cwd: dir }
+    );
+
+    expect(output).toContain("//? col 3: 1 | col 12: 2 (2 hits)");
+  });
+
+  test("should truncate and color annotations", () => {
+    const output = renderSource(entries, { cwd: dir, color: true, width: 8 });
+
+    expect(output).toContain("\u001b[32muser = …\u001b[0m");
+  });
+
+  test("should list values when the source is not available", () => {
+    const missing = { ...entries[0]!, filePath: path.join(dir, "gone.ts") };
+
+    expect(renderSource([missing], { cwd: dir })).toMatchInlineSnapshot(`
+"📁 gone.ts
+  (source not available)
+   3 1"
+`);
+  });
+
+  test("should export HTML with expandable trees and every hit", () => {
+    const html = renderHtml(entries, { cwd: dir });
+
+    expect(html).toContain("<h2>sum.ts</h2>");
+    expect(html.match(/class="entry expression"/g)).toHaveLength(2);
+    expect(html).toContain(
+      `<details><summary><span class="value object">{ name: &quot;&lt;b&gt;John&lt;/b&gt;&quot; }</span></summary>`
+    );
+    expect(html).not.toContain("<b>John</b>");
+  });
+
+  test("should escape entry types read from the file", () => {
+    const html = renderHtml(
+      [
+        {
+          type: `"><img src=x onerror=alert(1)>` as DebugData["type"],
+          called: "1",
+          filePath,
+          line: 3,
+        },
+      ],
+      { cwd: dir }
+    );
+
+    expect(html).not.toContain("<img");
+    expect(html).toContain(
+      `<div class="entry &quot;&gt;&lt;img src=x onerror=alert(1)&gt;">`
+    );
+  });
+
+  test("should write HTML from the command line", () => {
+    const outputFile = path.join(dir, "out.json");
+    const htmlFile = path.join(dir, "out.html");
+    fs.writeFileSync(outputFile, JSON.stringify(entries));
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(
+      main(["render", outputFile, "--html", htmlFile, "--line", "5"])
+    ).toBe(0);
+
+    expect(fs.readFileSync(htmlFile, "utf8")).toContain(
+      `<span class="key">user</span>`
+    );
+    expect(log).toHaveBeenCalledWith(`Wrote 1 entries to ${htmlFile}`);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,171 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { main, parseArgs } from "../cli";
+import {
+  filterEntries,
+  formatEntry,
+  formatReport,
+  parseLineRange,
+} from "../report";
+import { DebugData } from "../types";
+
+const cwd = "/project";
+
+const entries: DebugData[] = [
+  {
+    type: "variable",
+    variable: "name",
+    called: `"John"`,
+    filePath: "/project/src/user.ts",
+    line: 2,
+  },
+  { type: "return", called: "5", filePath: "/project/src/math.ts", line: 6 },
+  {
+    type: "await",
+    called: "[1, 2]",
+    prefix: "Resolved Promise: ",
+    filePath: "/project/src/user.ts",
+    line: 9,
+  },
+  {
+    type: "log",
+    called: [`"Name:"`, `"John"`],
+    filePath: "/project/src/user.ts",
+    line: 12,
+  },
+  {
+    type: "error",
+    called: ["boom", "Error: boom"],
+    filePath: "/project/src/math.ts",
+    line: 20,
+  },
+  {
+    type: "method",
+    variable: "save",
+    called: "[Function: save]",
+    filePath: "/project/src/user.ts",
+    line: 30,
+  },
+];
+
+describe("Report", () => {
+  test("should format every entry type", () => {
+    expect(entries.map(formatEntry)).toEqual([
+      `name = "John"`,
+      "[RETURN] 5",
+      "[AWAIT] Resolved Promise: [1, 2]",
+      `[LOG] "Name:" "John"`,
+      "[ERROR] Error: boom",
+      "[METHOD] save = [Function: save]",
+    ]);
+  });
+
+  test("should group entries by file", () => {
+    expect(formatReport(entries, cwd)).toMatchInlineSnapshot(`
+"📁 src/user.ts:
+──────────────
+  1. name = "John" (line 2)
+  2. [AWAIT] Resolved Promise: [1, 2] (line 9)
+  3. [LOG] "Name:" "John" (line 12)
+  4. [METHOD] save = [Function: save] (line 30)
+
+📁 src/math.ts:
+──────────────
+  1. [RETURN] 5 (line 6)
+  2. [ERROR] Error: boom (line 20)"
+`);
+  });
+
+  test("should include the column when it is known", () => {
+    const [first] = formatReport([{ ...entries[0]!, column: 7 }], cwd)
+      .split("\n")
+      .slice(2);
+
+    expect(first).toBe(`  1. name = "John" (line 2:7)`);
+  });
+
+  test("should filter by file, line range, type and variable", () => {
+    const lines = (filtered: DebugData[]) => filtered.map((item) => item.line);
+
+    expect(
+      lines(filterEntries(entries, { files: ["**/math.ts"] }, cwd))
+    ).toEqual([6, 20]);
+    expect(lines(filterEntries(entries, { lines: [5, 12] }, cwd))).toEqual([
+      6, 9, 12,
+    ]);
+    expect(
+      lines(filterEntries(entries, { types: ["log", "return"] }, cwd))
+    ).toEqual([6, 12]);
+    expect(
+      lines(
+        filterEntries(
+          entries,
+          { files: ["src/user.ts"], variables: ["name", "save"] },
+          cwd
+        )
+      )
+    ).toEqual([2, 30]);
+  });
+
+  test("should parse line ranges", () => {
+    expect(parseLineRange("12")).toEqual([12, 12]);
+    expect(parseLineRange("10-20")).toEqual([10, 20]);
+    expect(parseLineRange("10-")).toEqual([10, Infinity]);
+    expect(parseLineRange("-20")).toEqual([0, 20]);
+    expect(() => parseLineRange("a-b")).toThrow(/Invalid line range/);
+  });
+
+  test("should parse command line flags", () => {
+    expect(
+      parseArgs(
+        ["out.json", "--json", "--type", "log", "--line=1-5", "--no-color"],
+        ["json"]
+      )
+    ).toEqual({
+      positionals: ["out.json"],
+      flags: { json: true, type: "log", line: "1-5", color: false },
+    });
+  });
+
+  describe("command", () => {
+    let dir: string;
+    let log: jest.SpyInstance;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+      log = jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      log.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should print filtered entries as JSON", () => {
+      const outputFile = path.join(dir, "out.json");
+      fs.writeFileSync(outputFile, JSON.stringify(entries));
+
+      expect(
+        main(["report", outputFile, "--type", "variable,method", "--json"])
+      ).toBe(0);
+
+      const printed = JSON.parse(log.mock.calls[0][0]);
+      expect(printed.map((item: DebugData) => item.variable)).toEqual([
+        "name",
+        "save",
+      ]);
+    });
+
+    test("should read shards when the output file is missing", () => {
+      const outputFile = path.join(dir, ".debug.data.json");
+      fs.writeFileSync(
+        path.join(dir, ".debug.data.worker-1.json"),
+        JSON.stringify(entries.slice(0, 1))
+      );
+
+      expect(main(["report", outputFile])).toBe(0);
+      expect(log.mock.calls[0][0]).toContain(`1. name = "John" (line 2)`);
+    });
+  });
+});
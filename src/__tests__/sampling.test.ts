@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { InlineDebuggerRuntime } from "../runtime";
+import { Sampler } from "../sampling";
+import { readDebugData } from "../storage";
+import { DebugData, SamplingPolicy } from "../types";
+
+const hit = (i: number, sample?: SamplingPolicy): DebugData => ({
+  type: "variable",
+  variable: "i",
+  called: String(i),
+  filePath: "loop.ts",
+  line: 3,
+  column: 5,
+  ...(sample && { sample }),
+});
+
+/**
+ * Feed hits 1..count through a sampler, returning the numbers written
+ * right away and what a drain returns afterwards
+ */
+const run = (
+  policy: SamplingPolicy,
+  count: number,
+  time: (i: number) => number = () => 0
+) => {
+  const sampler = new Sampler(policy);
+  const kept = [];
+  for (let i = 1; i <= count; i++) {
+    if (sampler.sample(hit(i), "out.json", time(i)) === "write") {
+      kept.push(i);
+    }
+  }
+  return { kept, drained: sampler.drain().map(([, entry]) => entry) };
+};
+
+describe("Sampling", () => {
+  test("should number the hits of every site", () => {
+    const sampler = new Sampler();
+    const entries = [hit(1), hit(2), { ...hit(3), line: 4 }];
+    entries.forEach((entry) => sampler.sample(entry, "out.json"));
+
+    expect(entries.map((entry) => entry.hit)).toEqual([1, 2, 1]);
+    expect(sampler.drain()).toEqual([]);
+  });
+
+  test("should keep the first hits and summarize the rest", () => {
+    const { kept, drained } = run({ first: 3 }, 10);
+
+    expect(kept).toEqual([1, 2, 3]);
+    expect(drained).toEqual([
+      {
+        type: "sampling",
+        filePath: "loop.ts",
+        line: 3,
+        column: 5,
+        variable: "i",
+        called: "Dropped 7 of 10 hits (first 3)",
+        hits: 10,
+        dropped: 7,
+      },
+    ]);
+  });
+
+  test("should hold back the last hits until drained", () => {
+    const { kept, drained } = run({ last: 2 }, 5);
+
+    expect(kept).toEqual([]);
+    expect(drained.map((entry) => entry.called)).toEqual([
+      "4",
+      "5",
+      "Dropped 3 of 5 hits (last 2)",
+    ]);
+  });
+
+  test("should keep every nth hit", () => {
+    expect(run({ every: 3 }, 7).kept).toEqual([1, 4, 7]);
+  });
+
+  test("should limit hits per interval", () => {
+    // Two hits per ms, 1000 ms windows
+    const { kept, drained } = run({ rate: 2, interval: 1000 }, 4000, (i) =>
+      Math.floor(i / 2)
+    );
+
+    expect(kept).toEqual([1, 2, 2000, 2001, 4000]);
+    expect(drained[0]?.called).toBe("Dropped 3995 of 4000 hits (2 per 1000ms)");
+  });
+
+  test("should only summarize drops since the previous drain", () => {
+    const sampler = new Sampler({ first: 1 });
+    [1, 2].forEach((i) => sampler.sample(hit(i), "out.json"));
+
+    expect(sampler.drain()).toHaveLength(1);
+    expect(sampler.drain()).toHaveLength(0);
+  });
+
+  test("should prefer the policy of the marker", () => {
+    const sampler = new Sampler({ first: 1 });
+
+    expect(sampler.sample(hit(1, { every: 2 }), "out.json")).toBe("write");
+    expect(sampler.sample(hit(2, { every: 2 }), "out.json")).toBe("drop");
+    expect(sampler.sample(hit(3, { every: 2 }), "out.json")).toBe("write");
+  });
+
+  test("should reject invalid policies", () => {
+    expect(() => new Sampler().configure({ first: 1, every: 2 })).toThrow(
+      "A sampling policy needs exactly one of first, last, every or rate, got first, every."
+    );
+    expect(() => new Sampler().configure({ last: 0 })).toThrow(
+      `Sampling option "last" must be a positive integer, got 0.`
+    );
+  });
+
+  test("should write kept hits and summaries through the runtime", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    try {
+      const outputFile = path.join(dir, "out.json");
+      const runtime = new InlineDebuggerRuntime({
+        outputFile,
+        shard: false,
+        sampling: { last: 2 },
+      });
+
+      for (let i = 0; i < 1000; i++) {
+        runtime.inlineDebuggerWatch({ ...hit(i), called: () => i });
+      }
+      runtime.flush();
+
+      expect(
+        readDebugData(outputFile).map((entry) => [entry.hit, entry.called])
+      ).toEqual([
+        [999, "998"],
+        [1000, "999"],
+        [undefined, "Dropped 998 of 1000 hits (last 2)"],
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should not serialize or capture the stack of dropped hits", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    const runtime = new InlineDebuggerRuntime({
+      outputFile: path.join(dir, "out.json"),
+      shard: false,
+      sampling: { every: 100 },
+      stack: 1,
+    });
+    const internals = runtime as unknown as Record<string, () => unknown>;
+    const serialize = jest.spyOn(internals, "serialize");
+    const captureStack = jest.spyOn(internals, "captureStack");
+    try {
+      for (let i = 0; i < 1000; i++) {
+        runtime.inlineDebuggerWatch({ ...hit(i), called: () => ({ i }) });
+      }
+      runtime.pause();
+      runtime.inlineDebuggerWatch({ ...hit(0), called: () => ({ i: 0 }) });
+
+      expect(serialize).toHaveBeenCalledTimes(10);
+      expect(captureStack).toHaveBeenCalledTimes(10);
+      expect(runtime.getData()).toHaveLength(11);
+    } finally {
+      runtime.reset();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
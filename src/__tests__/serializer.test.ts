@@ -0,0 +1,105 @@
+import { preview, serialize } from "../serializer";
+
+describe("Serializer", () => {
+  test("should serialize primitives JSON cannot represent", () => {
+    expect(serialize(undefined)).toEqual({ type: "undefined" });
+    expect(serialize(10n)).toEqual({ type: "bigint", value: "10" });
+    expect(serialize(NaN)).toEqual({ type: "number", value: "NaN" });
+    expect(serialize(-0)).toEqual({ type: "number", value: "-0" });
+    expect(serialize(Symbol("id"))).toEqual({
+      type: "symbol",
+      description: "id",
+    });
+  });
+
+  test("should serialize collections with constructor names", () => {
+    const map = new Map<unknown, unknown>([
+      ["a", 1],
+      [{ b: 2 }, new Set([3])],
+    ]);
+
+    expect(preview(serialize(map))).toBe(
+      `Map(2) { "a" => 1, { b: 2 } => Set(1) { 3 } }`
+    );
+    expect(preview(serialize(new Uint8Array([1, 2])))).toBe(
+      "Uint8Array(2) [1, 2]"
+    );
+    expect(serialize(new Date(0))).toEqual({
+      type: "date",
+      value: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("should keep class instances, getters and symbol keys", () => {
+    class User {
+      [Symbol.for("secret")] = true;
+      constructor(public name: string) {}
+    }
+    const user = new User("John");
+    Object.defineProperty(user, "upper", {
+      enumerable: true,
+      get: () => user.name.toUpperCase(),
+    });
+
+    expect(preview(serialize(user))).toBe(
+      `User { name: "John", upper: [Getter], [Symbol(secret)]: true }`
+    );
+    expect(serialize(Object.create(null))).toEqual({
+      type: "object",
+      constructor: null,
+      properties: [],
+    });
+  });
+
+  test("should mark circular references with their path", () => {
+    const parent: any = { children: [] };
+    parent.children.push({ parent });
+
+    expect(preview(serialize(parent))).toBe(
+      "{ children: [{ parent: [Circular ~] }] }"
+    );
+
+    const shared = { id: 1 };
+    expect(preview(serialize([shared, shared]))).toBe("[{ id: 1 }, { id: 1 }]");
+  });
+
+  test("should serialize errors with name, message, stack and cause", () => {
+    const cause = new TypeError("bad input");
+    const error = new Error("failed", { cause });
+    (error as any).code = "E_FAILED";
+
+    const serialized = serialize(error);
+
+    expect(serialized).toMatchObject({
+      type: "error",
+      name: "Error",
+      message: "failed",
+      stack: expect.stringContaining("Error: failed"),
+      cause: { type: "error", name: "TypeError", message: "bad input" },
+    });
+    expect(preview(serialized)).toBe(`Error: failed { code: "E_FAILED" }`);
+  });
+
+  test("should apply depth, string and collection limits", () => {
+    const options = { maxDepth: 1, maxStringLength: 3, maxCollectionSize: 2 };
+
+    expect(preview(serialize({ a: { b: { c: 1 } } }, options))).toBe(
+      "{ a: { b: [Object] } }"
+    );
+    expect(preview(serialize("abcdef", options))).toBe(`"abc"... (3 more)`);
+    expect(preview(serialize([1, 2, 3, 4], options))).toBe(
+      "[1, 2, ... 2 more]"
+    );
+  });
+
+  test("should keep function sources", () => {
+    const serialized = serialize(async function load() {});
+
+    expect(serialized).toMatchObject({
+      type: "function",
+      name: "load",
+      kind: "async",
+    });
+    expect(preview(serialized)).toBe("[Function: load]");
+  });
+});
@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { InlineDebuggerRuntime } from "../runtime";
+import { readDebugData } from "../storage";
+import { RuntimeOptions } from "../types";
+
+describe("Sessions", () => {
+  let dir: string;
+  let runtime: InlineDebuggerRuntime;
+
+  const create = (options: RuntimeOptions = {}) => {
+    runtime = new InlineDebuggerRuntime({
+      outputFile: path.join(dir, "out.json"),
+      shard: false,
+      ...options,
+    });
+  };
+
+  const watch = (i: number) =>
+    runtime.inlineDebuggerWatch({
+      type: "variable",
+      variable: "i",
+      called: () => i,
+      filePath: path.join(dir, "bench.ts"),
+      line: 3,
+    });
+
+  const recorded = () =>
+    runtime.getData().map((entry) => [entry.called, entry.session]);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+  });
+
+  afterEach(() => {
+    runtime.reset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should tag entries recorded in a session, across await", async () => {
+    create();
+    watch(1);
+    const result = await runtime.session("warm", async () => {
+      watch(2);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      watch(3);
+      return "done";
+    });
+    watch(4);
+
+    expect(result).toBe("done");
+    expect(recorded()).toEqual([
+      ["1", undefined],
+      ["2", "warm"],
+      ["3", "warm"],
+      ["4", undefined],
+    ]);
+  });
+
+  test("should only record sessions when asked to, each in its own file", () => {
+    create({ record: "sessions" });
+    const benchFile = path.join(dir, "bench.json");
+
+    watch(1);
+    runtime.session("iteration", () => watch(2), { outputFile: benchFile });
+    runtime.session("other", () => watch(3));
+    runtime.flush();
+
+    expect(recorded()).toEqual([["3", "other"]]);
+    expect(runtime.query({ outputFile: benchFile })).toEqual([
+      expect.objectContaining({ called: "2", session: "iteration" }),
+    ]);
+    expect(readDebugData(benchFile)).toHaveLength(1);
+  });
+
+  test("should record between start and stop", () => {
+    create({ record: "sessions" });
+
+    watch(1);
+    runtime.start("phase 1");
+    watch(2);
+    runtime.start("phase 2");
+    runtime.session("scoped", () => watch(3));
+    watch(4);
+    runtime.stop("phase 1");
+    watch(5);
+    runtime.stop();
+    watch(6);
+    runtime.stop();
+
+    expect(recorded()).toEqual([
+      ["2", "phase 1"],
+      ["3", "scoped"],
+      ["4", "phase 2"],
+      ["5", "phase 2"],
+    ]);
+  });
+
+  test("should record nothing while paused", () => {
+    create({ paused: true });
+
+    watch(1);
+    runtime.resume();
+    watch(2);
+    runtime.pause();
+    runtime.session("paused", () => watch(3));
+
+    expect(recorded()).toEqual([["2", undefined]]);
+    expect(runtime.getData()[0]).toHaveProperty("hit", 1);
+  });
+});
@@ -0,0 +1,162 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { main } from "../cli";
+import {
+  findShards,
+  getShardKey,
+  getShardPath,
+  mergeShards,
+  writeMergedShards,
+} from "../shards";
+import { readDebugData } from "../storage";
+import { DebugData } from "../types";
+
+const entry = (
+  pid: number,
+  seq: number,
+  timestamp: number,
+  worker?: number
+): DebugData => ({
+  type: "expression",
+  called: `${pid}:${seq}`,
+  filePath: "a.ts",
+  line: 1,
+  pid,
+  seq,
+  timestamp,
+  ...(worker !== undefined && { worker }),
+});
+
+describe("Shards", () => {
+  let dir: string;
+  let outputPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    outputPath = path.join(dir, ".debug.data.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should key shards by Jest worker id", () => {
+    expect(getShardKey()).toBe(`worker-${process.env["JEST_WORKER_ID"]}`);
+    expect(getShardPath("/tmp/.debug.data.json", "worker-3")).toBe(
+      "/tmp/.debug.data.worker-3.json"
+    );
+    expect(getShardPath("/tmp/out.ndjson", "pid-12")).toBe(
+      "/tmp/out.pid-12.ndjson"
+    );
+  });
+
+  test("should only find shards of the given output file", () => {
+    fs.writeFileSync(outputPath, "[]");
+    fs.writeFileSync(getShardPath(outputPath, "worker-1"), "[]");
+    fs.writeFileSync(getShardPath(outputPath, "pid-42"), "[]");
+    fs.writeFileSync(path.join(dir, ".debug.data.backup.json"), "[]");
+    fs.writeFileSync(path.join(dir, "other.worker-1.json"), "[]");
+
+    expect(findShards(outputPath).map((file) => path.basename(file))).toEqual([
+      ".debug.data.pid-42.json",
+      ".debug.data.worker-1.json",
+    ]);
+  });
+
+  test("should merge shards ordered by time, process and sequence", () => {
+    fs.writeFileSync(
+      getShardPath(outputPath, "worker-1"),
+      JSON.stringify([entry(10, 0, 100, 1), entry(10, 1, 300, 1)])
+    );
+    fs.writeFileSync(
+      getShardPath(outputPath, "worker-2"),
+      `${JSON.stringify(entry(20, 0, 200, 2))}\n${JSON.stringify(
+        entry(20, 1, 300, 2)
+      )}\n`
+    );
+
+    expect(mergeShards(outputPath).map((item) => item.called)).toEqual([
+      "10:0",
+      "20:0",
+      "10:1",
+      "20:1",
+    ]);
+  });
+
+  test("should write merged shards and optionally remove them", () => {
+    fs.writeFileSync(
+      getShardPath(outputPath, "worker-1"),
+      JSON.stringify([entry(10, 0, 100, 1)])
+    );
+
+    const result = writeMergedShards(outputPath, { clean: true });
+
+    expect(result.entries).toBe(1);
+    expect(readDebugData(outputPath)).toEqual([entry(10, 0, 100, 1)]);
+    expect(findShards(outputPath)).toEqual([]);
+    expect(fs.readdirSync(dir)).toEqual([".debug.data.json"]);
+  });
+
+  test("should leave the output file alone when there are no shards", () => {
+    const content = JSON.stringify([entry(1, 0, 100)]);
+    fs.writeFileSync(outputPath, content);
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(writeMergedShards(outputPath)).toMatchObject({ entries: 0 });
+    expect(main(["merge", outputPath])).toBe(1);
+
+    expect(fs.readFileSync(outputPath, "utf8")).toBe(content);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining("No shards found")
+    );
+    error.mockRestore();
+  });
+
+  test("should keep every entry written by parallel processes", () => {
+    const runtimePath = path.resolve(__dirname, "../../dist/runtime.js");
+    const script = `
+      const { InlineDebuggerRuntime } = require(${JSON.stringify(runtimePath)});
+      const runtime = new InlineDebuggerRuntime({
+        outputFile: ${JSON.stringify(outputPath)},
+        shard: true,
+      });
+      for (let i = 0; i < 50; i++) {
+        runtime.inlineDebuggerWatch({
+          type: "variable",
+          variable: "i",
+          filePath: "loop.js",
+          line: 1,
+          called: () => i,
+        });
+      }
+    `;
+    const env = { ...process.env, JEST_WORKER_ID: "" };
+    for (let i = 0; i < 3; i++) {
+      execFileSync(process.execPath, ["-e", script], { env });
+    }
+
+    expect(findShards(outputPath)).toHaveLength(3);
+    const merged = mergeShards(outputPath);
+    expect(merged).toHaveLength(150);
+    expect(new Set(merged.map((item) => item.pid)).size).toBe(3);
+  });
+
+  test("should merge shards from the command line", () => {
+    fs.writeFileSync(
+      getShardPath(outputPath, "pid-1"),
+      JSON.stringify([entry(1, 0, 100)])
+    );
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const out = path.join(dir, "merged.json");
+    expect(main(["merge", outputPath, "--out", out])).toBe(0);
+
+    expect(readDebugData(out)).toHaveLength(1);
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("Merged 1 entries from 1 shards")
+    );
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,203 @@
+import { matchers } from "../jest-matchers";
+import { snapshotEntries } from "../snapshot";
+import { DebugData } from "../types";
+
+const entry = (item: Partial<DebugData>): DebugData => ({
+  type: "variable",
+  called: "1",
+  filePath: "/project/src/cart.ts",
+  ...item,
+});
+
+describe("Snapshots", () => {
+  test("should strip what differs between runs and order entries", () => {
+    const entries = [
+      entry({
+        variable: "total",
+        called: "8",
+        value: { type: "number", value: 8 },
+        timestamp: 20,
+        seq: 4,
+        pid: 7,
+        worker: 1,
+        callId: 12,
+        contextId: 3,
+        duration: 1.5,
+        start: 19,
+        testPath: "/project/src/cart.test.ts",
+        stack: [
+          {
+            functionName: "checkout",
+            filePath: "/project/src/checkout.ts",
+            line: 3,
+            column: 9,
+          },
+        ],
+      }),
+      entry({
+        type: "call",
+        variable: "sum",
+        called: "Error: empty",
+        value: {
+          type: "error",
+          name: "Error",
+          message: "empty",
+          stack: "Error: empty\n    at sum (/project/src/cart.ts:2:9)",
+          cause: {
+            type: "error",
+            name: "Error",
+            message: "no items",
+            stack: "Error: no items",
+            properties: [],
+          },
+          properties: [],
+        },
+        filePath: "/elsewhere/cart.ts",
+        timestamp: 10,
+        seq: 3,
+        pid: 7,
+        callId: 11,
+        parentCallId: 12,
+      }),
+    ];
+
+    expect(snapshotEntries(entries, { root: "/project/" }))
+      .toMatchInlineSnapshot(`
+[
+  {
+    "callId": 1,
+    "called": "Error: empty",
+    "filePath": "/elsewhere/cart.ts",
+    "parentCallId": 2,
+    "type": "call",
+    "value": {
+      "cause": {
+        "message": "no items",
+        "name": "Error",
+        "properties": [],
+        "stack": "[stack]",
+        "type": "error",
+      },
+      "message": "empty",
+      "name": "Error",
+      "properties": [],
+      "stack": "[stack]",
+      "type": "error",
+    },
+    "variable": "sum",
+  },
+  {
+    "callId": 2,
+    "called": "8",
+    "contextId": 1,
+    "filePath": "src/cart.ts",
+    "stack": [
+      {
+        "column": 9,
+        "filePath": "src/checkout.ts",
+        "functionName": "checkout",
+        "line": 3,
+      },
+    ],
+    "testPath": "src/cart.test.ts",
+    "type": "variable",
+    "value": {
+      "type": "number",
+      "value": 8,
+    },
+    "variable": "total",
+  },
+]
+`);
+    // Entries are copied, not changed
+    expect(entries[0]).toHaveProperty("timestamp", 20);
+  });
+
+  test("should keep paths outside of the root and all paths without one", () => {
+    const entries = [entry({ filePath: "/project-b/cart.ts" })];
+
+    expect(snapshotEntries(entries, { root: "/project" })[0]!.filePath).toBe(
+      "/project-b/cart.ts"
+    );
+    expect(snapshotEntries([entry({})], { root: undefined })[0]!.filePath).toBe(
+      "/project/src/cart.ts"
+    );
+    expect(
+      snapshotEntries([entry({ filePath: `${process.cwd()}/src/a.ts` })])[0]!
+        .filePath
+    ).toBe("src/a.ts");
+  });
+
+  test("should snapshot what the runtime recorded", () => {
+    let total = 0;
+    {
+      total = 2 + 3; //?
+    }
+
+    expect(total).toBe(5);
+    expect(global.inlineDebugger.getSnapshotData()).toEqual([
+      expect.objectContaining({
+        variable: "total",
+        called: "5",
+        filePath: "src/__tests__/snapshot.test.ts",
+      }),
+    ]);
+    expect(global.inlineDebugger.getData()).toMatchWatchSnapshot();
+  });
+
+  describe("matchers", () => {
+    const watches = [
+      entry({
+        variable: "sum",
+        called: "8",
+        value: { type: "number", value: 8 },
+      }),
+      entry({
+        variable: "user",
+        called: "{ id: 1 }",
+        value: {
+          type: "object",
+          constructor: null,
+          properties: [{ key: "id", value: { type: "number", value: 1 } }],
+        },
+      }),
+      entry({ label: "gross", called: "12", detail: "compact" }),
+    ];
+
+    test("should find entries by name and value", () => {
+      expect(watches).toHaveWatched("sum");
+      expect(watches).toHaveWatched("sum", 8);
+      expect(watches).not.toHaveWatched("sum", 9);
+      expect(watches).toHaveWatched("user", { id: 1 });
+      expect(watches).toHaveWatched("gross", "12");
+      expect(watches).not.toHaveWatched("total");
+    });
+
+    test("should say what was recorded when they fail", () => {
+      const context = {
+        equals: (a: unknown, b: unknown) =>
+          JSON.stringify(a) === JSON.stringify(b),
+        isNot: false,
+        utils: {
+          matcherHint: (name: string) => name,
+          printExpected: (value: unknown) => JSON.stringify(value),
+          printReceived: (value: unknown) => JSON.stringify(value),
+        },
+      } as unknown as jest.MatcherContext;
+
+      expect(
+        matchers.toHaveWatched.call(context, watches, "sum", 9).message()
+      ).toBe(
+        'toHaveWatched\n\nName: "sum"\nExpected value: 9\nRecorded values: 8'
+      );
+      expect(
+        matchers.toHaveWatched.call(context, watches, "total").message()
+      ).toBe(
+        'toHaveWatched\n\nName: "total"\nRecorded names: ["sum","user","gross"]'
+      );
+      expect(() =>
+        matchers.toHaveWatched.call(context, undefined as any, "sum")
+      ).toThrow("toHaveWatched expects the entries of getData()");
+    });
+  });
+});
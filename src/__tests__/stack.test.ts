@@ -0,0 +1,166 @@
+import { transformSync } from "@babel/core";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatReport } from "../report";
+import { InlineDebuggerRuntime } from "../runtime";
+import { mapFrame, parseStack } from "../stack";
+import { readDebugData } from "../storage";
+import { DebugData } from "../types";
+import { checkout, quote } from "./fixtures/checkout";
+
+const fixture = path.join(__dirname, "fixtures", "checkout.ts");
+
+const entries = (): DebugData[] =>
+  global.inlineDebugger
+    .getData()
+    .filter((item) => item.filePath.endsWith("checkout.ts"));
+
+describe("Stack capture", () => {
+  test("should record the callers of every hit", () => {
+    checkout({ prices: [1, 2] });
+    quote([3]);
+
+    const [first, second] = entries();
+    expect(first?.stack?.slice(0, 2)).toEqual([
+      { functionName: "total", filePath: fixture, line: 6, column: 3 },
+      { functionName: "checkout", filePath: fixture, line: 10, column: 10 },
+    ]);
+    expect(first?.stack?.[2]).toMatchObject({ filePath: __filename });
+    expect(second?.stack?.[1]).toMatchObject({ functionName: "quote" });
+    expect(first).not.toHaveProperty("captureStack");
+  });
+
+  test("should leave out frames of the runtime, Node and dependencies", () => {
+    checkout({ prices: [] });
+
+    for (const frame of entries()[0]?.stack ?? []) {
+      expect(frame.filePath).not.toMatch(
+        /runtime|stack\.ts|node_modules|node:/
+      );
+    }
+  });
+
+  test("should parse V8 frames", () => {
+    expect(
+      parseStack(
+        [
+          "Error: boom",
+          "    at total (/app/src/cart.js:6:10)",
+          "    at async Promise.all (index 0)",
+          "    at new Cart (file:///app/src/cart.mjs:2:3)",
+          "    at /app/src/main.js:1:1",
+          "    at eval (eval at run (/app/src/run.js:1:1), <anonymous>:1:1)",
+        ].join("\n")
+      )
+    ).toEqual([
+      {
+        functionName: "total",
+        filePath: "/app/src/cart.js",
+        line: 6,
+        column: 10,
+      },
+      {
+        functionName: "new Cart",
+        filePath: "/app/src/cart.mjs",
+        line: 2,
+        column: 3,
+      },
+      { filePath: "/app/src/main.js", line: 1, column: 1 },
+    ]);
+  });
+
+  test("should map frames of generated code through its source map", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    try {
+      const source = path.join(dir, "cart.ts");
+      const generated = path.join(dir, "cart.js");
+      const { code } = transformSync(
+        "type Price = number;\n\nexport const total = (prices: Price[]) =>\n  prices.length;\n",
+        {
+          filename: source,
+          babelrc: false,
+          configFile: false,
+          sourceMaps: "inline",
+          presets: [require.resolve("@babel/preset-typescript")],
+        }
+      )!;
+      fs.writeFileSync(generated, code!);
+      const lines = code!.split("\n");
+      const line = lines.findIndex((text) => text.includes("prices.length"));
+      const column = lines[line]!.indexOf("prices.length");
+
+      expect(
+        mapFrame({ filePath: generated, line: line + 1, column: column + 1 })
+      ).toEqual({ filePath: source, line: 4, column: 3 });
+      expect(mapFrame({ filePath: fixture, line: 6, column: 10 })).toEqual({
+        filePath: fixture,
+        line: 6,
+        column: 10,
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should capture every watch with the stack option", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    try {
+      const outputFile = path.join(dir, "out.json");
+      const runtime = new InlineDebuggerRuntime({
+        outputFile,
+        shard: false,
+        stack: 1,
+      });
+      const watch = (captureStack?: number) =>
+        runtime.inlineDebuggerWatch({
+          type: "variable",
+          variable: "total",
+          called: () => 1,
+          filePath: "cart.ts",
+          ...(captureStack && { captureStack }),
+        });
+
+      watch();
+      watch(3);
+      runtime.flush();
+
+      const [configured, marked] = readDebugData(outputFile);
+      expect(configured?.stack).toEqual([
+        expect.objectContaining({
+          functionName: "watch",
+          filePath: __filename,
+        }),
+      ]);
+      expect(marked?.stack).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should print the callers below each entry", () => {
+    const entry: DebugData = {
+      type: "return",
+      called: "3",
+      filePath: "/project/src/cart.ts",
+      line: 6,
+      stack: [
+        {
+          functionName: "total",
+          filePath: "/project/src/cart.ts",
+          line: 6,
+          column: 10,
+        },
+        { filePath: "/project/src/main.ts", line: 2, column: 1 },
+      ],
+    };
+
+    expect(formatReport([entry], "/project")).toMatchInlineSnapshot(`
+"📁 src/cart.ts:
+──────────────
+  1. [RETURN] 3 (line 6)
+     at total (src/cart.ts:6:10)
+     at src/main.ts:2:1"
+`);
+  });
+});
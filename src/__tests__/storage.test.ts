@@ -0,0 +1,188 @@
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { InlineDebuggerRuntime } from "../runtime";
+import { DebugStorage, readDebugData } from "../storage";
+import { DebugData, StorageFormat } from "../types";
+
+const entry = (line: number): DebugData => ({
+  type: "variable",
+  variable: "i",
+  called: String(line),
+  filePath: "loop.ts",
+  line,
+});
+
+describe("Storage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test.each<StorageFormat>(["json", "ndjson"])(
+    "should append %s batches that read back in order",
+    (format) => {
+      const filePath = path.join(dir, "out.data");
+      const storage = new DebugStorage(filePath, { format, flushSize: 2 });
+
+      [1, 2, 3, 4, 5].forEach((line) => storage.append(entry(line)));
+      storage.close();
+
+      expect(readDebugData(filePath).map((item) => item.line)).toEqual([
+        1, 2, 3, 4, 5,
+      ]);
+      if (format === "json") {
+        expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toHaveLength(5);
+      }
+    }
+  );
+
+  test("should only write when the buffer is full or flushed", () => {
+    const filePath = path.join(dir, "out.json");
+    const storage = new DebugStorage(filePath, { flushSize: 3 });
+
+    storage.append(entry(1));
+    storage.append(entry(2));
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    storage.append(entry(3));
+    expect(readDebugData(filePath)).toHaveLength(3);
+
+    storage.append(entry(4));
+    storage.close();
+    expect(readDebugData(filePath)).toHaveLength(4);
+  });
+
+  test("should replace output of earlier runs on the first write", () => {
+    const filePath = path.join(dir, "out.json");
+    fs.writeFileSync(filePath, JSON.stringify([entry(99)], null, 2));
+
+    const storage = new DebugStorage(filePath);
+    storage.append(entry(1));
+    storage.close();
+
+    expect(readDebugData(filePath).map((item) => item.line)).toEqual([1]);
+  });
+
+  test.each<StorageFormat>(["json", "ndjson"])(
+    "should add %s entries to output of earlier storages when appending",
+    (format) => {
+      const filePath = path.join(dir, "out.data");
+      const first = new DebugStorage(filePath, { format });
+      first.append(entry(1));
+      first.close();
+
+      const second = new DebugStorage(filePath, { format, append: true });
+      second.append(entry(2));
+      second.flush();
+      second.append(entry(3));
+      second.close();
+
+      expect(readDebugData(filePath).map((item) => item.line)).toEqual([
+        1, 2, 3,
+      ]);
+    }
+  );
+
+  test("should read legacy pretty-printed array files", () => {
+    const filePath = path.join(dir, "legacy.json");
+    fs.writeFileSync(filePath, JSON.stringify([entry(1), entry(2)], null, 2));
+
+    expect(readDebugData(filePath)).toEqual([entry(1), entry(2)]);
+    expect(readDebugData(path.join(dir, "missing.json"))).toEqual([]);
+  });
+
+  test("should rewrite written entries when the format changes", () => {
+    const filePath = path.join(dir, "out.data");
+    const storage = new DebugStorage(filePath);
+
+    storage.append(entry(1));
+    storage.flush();
+    storage.configure({ format: "ndjson" });
+    storage.append(entry(2));
+    storage.close();
+
+    const content = fs.readFileSync(filePath, "utf8");
+    expect(content.trim().split("\n")).toHaveLength(2);
+    expect(readDebugData(filePath).map((item) => item.line)).toEqual([1, 2]);
+  });
+
+  test("should flush and still exit on a signal with two copies loaded", () => {
+    const storagePath = path.resolve(__dirname, "../../dist/storage.js");
+    const script = `
+      const load = () => {
+        delete require.cache[${JSON.stringify(storagePath)}];
+        return require(${JSON.stringify(storagePath)});
+      };
+      const entry = { type: "variable", called: "1", filePath: "a.ts" };
+      new (load().DebugStorage)(${JSON.stringify(
+        path.join(dir, "a.json")
+      )}).append(entry);
+      new (load().DebugStorage)(${JSON.stringify(
+        path.join(dir, "b.json")
+      )}).append(entry);
+      process.kill(process.pid, "SIGINT");
+      setTimeout(() => console.log("still alive after SIGINT"), 1000);
+    `;
+
+    const result = spawnSync(process.execPath, ["-e", script], {
+      encoding: "utf8",
+      timeout: 10000,
+    });
+
+    expect(result.stdout).toBe("");
+    expect(result.signal).toBe("SIGINT");
+    expect(readDebugData(path.join(dir, "a.json"))).toHaveLength(1);
+    expect(readDebugData(path.join(dir, "b.json"))).toHaveLength(1);
+  });
+
+  describe("benchmark", () => {
+    const runLoop = (iterations: number, format: StorageFormat): number => {
+      const outputFile = path.join(dir, `loop-${format}-${iterations}.json`);
+      const runtime = new InlineDebuggerRuntime({
+        outputFile,
+        storage: { format },
+        shard: false,
+      });
+
+      const start = process.hrtime.bigint();
+      for (let i = 0; i < iterations; i++) {
+        runtime.inlineDebuggerWatch({
+          type: "variable",
+          variable: "i",
+          filePath: "loop.ts",
+          line: 1,
+          called: () => i,
+        });
+      }
+      runtime.flush();
+      const elapsed = Number(process.hrtime.bigint() - start);
+
+      expect(readDebugData(outputFile)).toHaveLength(iterations);
+      return elapsed;
+    };
+
+    // Best of several runs to smooth out GC pauses and a busy machine
+    const bestOf = (runs: number, fn: () => number): number =>
+      Math.min(...Array.from({ length: runs }, fn));
+
+    test.each<StorageFormat>(["json", "ndjson"])(
+      "should scale linearly with loop iterations (%s)",
+      (format) => {
+        runLoop(2000, format); // warm up
+
+        const small = bestOf(3, () => runLoop(5000, format));
+        const large = bestOf(3, () => runLoop(20000, format));
+
+        // 4x the iterations: linear is ~4x, quadratic would be ~16x
+        expect(large / small).toBeLessThan(8);
+      }
+    );
+  });
+});
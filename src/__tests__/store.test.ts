@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { InlineDebuggerRuntime } from "../runtime";
+import { readDebugData } from "../storage";
+import { EntryStore, matchesQuery } from "../store";
+import { DebugData } from "../types";
+
+const entry = (item: Partial<DebugData>): DebugData => ({
+  type: "variable",
+  called: "1",
+  filePath: "/project/src/cart.ts",
+  line: 5,
+  timestamp: 100,
+  ...item,
+});
+
+describe("Entry store", () => {
+  test("should match entries against every field of a query", () => {
+    const total = entry({
+      variable: "total",
+      label: "gross",
+      endLine: 7,
+      testName: "cart adds items",
+      testPath: "/project/src/cart.test.ts",
+    });
+
+    expect(matchesQuery(total, {})).toBe(true);
+    expect(matchesQuery(total, { file: "/project/src/cart.ts" })).toBe(true);
+    expect(matchesQuery(total, { file: "src/cart.ts" })).toBe(true);
+    expect(matchesQuery(total, { file: "./cart.ts" })).toBe(true);
+    expect(matchesQuery(total, { file: "art.ts" })).toBe(false);
+    expect(matchesQuery(total, { file: /cart/ })).toBe(true);
+    expect(matchesQuery(total, { line: 6 })).toBe(true);
+    expect(matchesQuery(total, { line: 8 })).toBe(false);
+    expect(matchesQuery(total, { type: "variable" })).toBe(true);
+    expect(matchesQuery(total, { type: ["call", "return"] })).toBe(false);
+    expect(matchesQuery(total, { variable: "total", label: "gross" })).toBe(
+      true
+    );
+    expect(matchesQuery(total, { variable: /^to/, label: "net" })).toBe(false);
+    expect(matchesQuery(total, { since: 100, until: new Date(100) })).toBe(
+      true
+    );
+    expect(matchesQuery(total, { since: 101 })).toBe(false);
+    expect(matchesQuery(total, { test: "cart adds items" })).toBe(true);
+    expect(matchesQuery(total, { test: /discounts/ })).toBe(false);
+    expect(matchesQuery(total, { testPath: "cart.test.ts" })).toBe(true);
+    expect(matchesQuery(entry({}), { test: /.*/ })).toBe(false);
+  });
+
+  test("should keep the latest entries of each file up to its limit", () => {
+    const store = new EntryStore(2);
+    for (let i = 1; i <= 5; i++) {
+      store.add("a.json", entry({ called: String(i) }));
+    }
+    store.add("b.json", entry({}));
+
+    expect(store.query("a.json").map((item) => item.called)).toEqual([
+      "4",
+      "5",
+    ]);
+    expect(store.outputFiles()).toEqual(["a.json", "b.json"]);
+    store.clear("a.json");
+    expect(store.query("a.json")).toEqual([]);
+    expect(store.query("b.json")).toHaveLength(1);
+  });
+
+  describe("runtime", () => {
+    let dir: string;
+    let runtime: InlineDebuggerRuntime;
+
+    const watch = (variable: string, value: unknown, line: number) =>
+      runtime.inlineDebuggerWatch({
+        type: "variable",
+        variable,
+        called: () => value,
+        filePath: path.join(dir, "src/cart.ts"),
+        line,
+      });
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+      runtime = new InlineDebuggerRuntime({
+        outputFile: path.join(dir, "out.json"),
+        shard: false,
+      });
+    });
+
+    afterEach(() => {
+      runtime.reset();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should answer queries from memory without reading the file", () => {
+      watch("total", 3, 4);
+      watch("count", 1, 5);
+      watch("total", 5, 4);
+      const read = jest.spyOn(fs, "readFileSync");
+      try {
+        expect(
+          runtime.query({ variable: "total" }).map((item) => item.called)
+        ).toEqual(["3", "5"]);
+        expect(runtime.query({ file: "src/cart.ts", line: 5 })).toEqual([
+          expect.objectContaining({ variable: "count" }),
+        ]);
+        expect(runtime.getData()).toHaveLength(3);
+        expect(runtime.snapshot({ variable: "count" }, { root: dir })).toEqual([
+          expect.objectContaining({ filePath: "src/cart.ts", called: "1" }),
+        ]);
+        expect(read).not.toHaveBeenCalled();
+      } finally {
+        read.mockRestore();
+      }
+    });
+
+    test("should clear memory and the output file together", () => {
+      const outputFile = path.join(dir, "out.json");
+      watch("total", 3, 4);
+      runtime.flush();
+      expect(readDebugData(outputFile)).toHaveLength(1);
+
+      runtime.clear();
+      expect(runtime.getData()).toEqual([]);
+      expect(fs.existsSync(outputFile)).toBe(false);
+
+      watch("total", 4, 4);
+      runtime.flush();
+      expect(readDebugData(outputFile).map((item) => item.called)).toEqual([
+        "4",
+      ]);
+      expect(runtime.getData().map((item) => item.called)).toEqual(["4"]);
+    });
+
+    test("should reset every output file and start numbering again", () => {
+      const other = path.join(dir, "other.json");
+      watch("total", 3, 4);
+      runtime.inlineDebuggerWatch({
+        type: "variable",
+        variable: "total",
+        called: () => 3,
+        filePath: path.join(dir, "src/cart.ts"),
+        outputFile: other,
+      });
+      runtime.flush();
+
+      runtime.reset();
+      expect(runtime.getData()).toEqual([]);
+      expect(runtime.query({ outputFile: other })).toEqual([]);
+      expect(fs.readdirSync(dir)).toEqual([]);
+
+      watch("total", 4, 4);
+      expect(runtime.getData()).toEqual([
+        expect.objectContaining({ called: "4", seq: 0, hit: 1 }),
+      ]);
+    });
+  });
+});
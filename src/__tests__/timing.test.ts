@@ -0,0 +1,130 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatEntry, formatReport } from "../report";
+import { InlineDebuggerRuntime } from "../runtime";
+import { readDebugData } from "../storage";
+import { summarizeTimings } from "../timing";
+import { DebugData } from "../types";
+import { compute, loadUser } from "./fixtures/timing";
+
+const entries = (): DebugData[] =>
+  global.inlineDebugger
+    .getData()
+    .filter((item) => item.filePath.endsWith("timing.ts"));
+
+const timed = (duration: number, line: number = 3): DebugData => ({
+  type: "variable",
+  variable: "total",
+  called: "1",
+  filePath: path.join(process.cwd(), "cart.ts"),
+  line,
+  column: 5,
+  start: 1000,
+  duration,
+});
+
+describe("Timing", () => {
+  test("should time marked sync expressions", () => {
+    compute(5);
+
+    const [entry] = entries();
+    expect(entry).toMatchObject({
+      type: "variable",
+      variable: "spins",
+      start: expect.any(Number),
+    });
+    expect(entry?.duration).toBeGreaterThanOrEqual(4);
+    expect(entry).not.toHaveProperty("time");
+  });
+
+  test("should time awaited and returned promises until they settle", async () => {
+    expect(await loadUser(20)).toEqual({ id: 1 });
+
+    const [awaited, returned] = entries();
+    expect(awaited).toMatchObject({ type: "await", line: 18 });
+    expect(returned).toMatchObject({
+      type: "return",
+      line: 27,
+      prefix: "Resolved Promise: ",
+      called: "{ id: 1 }",
+    });
+    expect(awaited?.duration).toBeGreaterThanOrEqual(15);
+    expect(returned!.start).toBeLessThanOrEqual(awaited!.start!);
+    expect(returned!.duration).toBeGreaterThanOrEqual(awaited!.duration!);
+  });
+
+  test("should aggregate durations per site", () => {
+    const stats = summarizeTimings([
+      timed(4),
+      timed(1),
+      { ...timed(7), line: 9 },
+      timed(2),
+      timed(3),
+      // Calls record durations without being timed
+      { ...timed(100), start: undefined },
+    ]);
+
+    expect(stats).toEqual([
+      {
+        filePath: path.join(process.cwd(), "cart.ts"),
+        line: 3,
+        column: 5,
+        variable: "total",
+        count: 4,
+        min: 1,
+        max: 4,
+        mean: 2.5,
+        p95: 4,
+      },
+      expect.objectContaining({ line: 9, count: 1, p95: 7 }),
+    ]);
+  });
+
+  test("should use the nearest rank for p95", () => {
+    const durations = Array.from({ length: 40 }, (_, i) => i + 1);
+    const [stats] = summarizeTimings(durations.map((d) => timed(d)));
+
+    expect(stats).toMatchObject({ count: 40, min: 1, max: 40, p95: 38 });
+  });
+
+  test("should report durations and timings", () => {
+    expect(formatEntry(timed(2.5))).toBe("total = 1 (2.50ms)");
+    expect(formatReport([timed(4), timed(1)])).toMatchInlineSnapshot(`
+"📁 cart.ts:
+──────────
+  1. total = 1 (4.00ms) (line 3:5)
+  2. total = 1 (1.00ms) (line 3:5)
+
+⏱  Timings:
+──────────
+  cart.ts:3:5 total  count 2  min 1.00ms  max 4.00ms  mean 2.50ms  p95 4.00ms"
+`);
+  });
+
+  test("should time every watch with the timing option", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inline-debugger-"));
+    try {
+      const outputFile = path.join(dir, "out.json");
+      const runtime = new InlineDebuggerRuntime({
+        outputFile,
+        shard: false,
+        timing: true,
+      });
+
+      runtime.inlineDebuggerWatch({
+        type: "variable",
+        variable: "total",
+        called: () => 1,
+        filePath: "cart.ts",
+      });
+      runtime.flush();
+
+      const [entry] = readDebugData(outputFile);
+      expect(entry?.start).toEqual(expect.any(Number));
+      expect(entry?.duration).toEqual(expect.any(Number));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,48 +1,239 @@
 import { PluginObj, PluginPass } from "@babel/core";
+import { addNamed } from "@babel/helper-module-imports";
 import * as t from "@babel/types";
+import * as nodePath from "path";
+import { matchesGlob } from "./glob";
+import { isMarkerComment, parseMarker } from "./marker";
+import { normalizePluginOptions } from "./plugin-options";
+import { createSourceMap, resolvePosition } from "./source-map";
+import {
+  BabelPluginOptions,
+  InstrumentKind,
+  Marker,
+  SourcePosition,
+} from "./types";
+
+type RuntimeExport = "inlineDebuggerWatch" | "inlineDebuggerCall" | "debugLog";
+
+interface InlineDebuggerState extends PluginPass {
+  instrumentFile?: boolean;
+  runtimeImports?: Partial<Record<RuntimeExport, t.Expression>>;
+  sourceMap?: ReturnType<typeof createSourceMap>;
+}
 
 /**
  * Babel plugin for inline debugging
  * Transforms code to add monitoring capabilities
  */
 export default function babelPluginInlineDebugger(
-  babel: any
-): PluginObj<PluginPass> {
-  const { types: t } = babel;
+  babel: any,
+  rawOptions: BabelPluginOptions = {}
+): PluginObj<InlineDebuggerState> {
+  const { types: t, template } = babel;
 
-  // Check environment variable to enable/disable debugger
-  const enableDebugger = process.env["INLINE_DEBUGGER_ENABLED"] !== "false";
+  const options = normalizePluginOptions(rawOptions as Record<string, unknown>);
 
-  if (!enableDebugger) {
+  if (!options.enabled) {
     return {
       name: "babel-plugin-inline-debugger",
       visitor: {},
     };
   }
 
+  // Nodes created or functions already wrapped by the plugin; watches can
+  // reference one node twice, which must not wrap it twice
+  const generated = new WeakSet<t.Node>();
+  // Parsed markers by comment
+  const markers = new WeakMap<object, Marker>();
+
+  /**
+   * Check include/exclude globs against the file being transformed
+   */
+  function isFileIncluded(filename: string | undefined, cwd: string): boolean {
+    if (!options.include.length && !options.exclude.length) {
+      return true;
+    }
+    if (!filename) {
+      return !options.include.length;
+    }
+
+    const absolute = filename.replace(/\\/g, "/");
+    const relative = nodePath.relative(cwd, filename).replace(/\\/g, "/");
+    const matches = (patterns: string[]) =>
+      matchesGlob(relative, patterns) || matchesGlob(absolute, patterns);
+
+    if (options.include.length && !matches(options.include)) {
+      return false;
+    }
+    return !matches(options.exclude);
+  }
+
+  /**
+   * Check whether a node kind should be instrumented in the current file
+   */
+  function shouldInstrument(
+    state: InlineDebuggerState,
+    kind: InstrumentKind
+  ): boolean {
+    return !!state.instrumentFile && options.instrument.has(kind);
+  }
+
+  /**
+   * Print a comment the way it is written in the source
+   */
+  function formatComment(comment: any): string {
+    return comment.type === "CommentBlock"
+      ? `/*${comment.value}*/`
+      : `//${comment.value}`;
+  }
+
+  /**
+   * Parse a marker comment once, reporting invalid markers as compile errors
+   * pointing at the comment
+   */
+  function parseMarkerComment(path: any, comment: any): Marker {
+    let marker = markers.get(comment);
+    if (marker) {
+      return marker;
+    }
+
+    try {
+      marker = parseMarker(comment.value);
+      // Only checks the syntax, expressions are parsed again when used
+      for (const expression of [marker.projection, marker.condition]) {
+        if (expression) {
+          template.expression.ast(expression);
+        }
+      }
+    } catch (error) {
+      throw path.hub.buildError(
+        comment,
+        `[babel-plugin-inline-debugger] Invalid marker "${formatComment(
+          comment
+        )}": ${(error as Error).message}`,
+        SyntaxError
+      );
+    }
+
+    markers.set(comment, marker);
+    return marker;
+  }
+
+  /**
+   * Check if a comment is a `//?` marker, block markers watch expressions
+   */
+  function isLineMarker(comment: any): boolean {
+    return comment.type === "CommentLine" && isMarkerComment(comment);
+  }
+
+  /**
+   * Find the marker of a node
+   * Comments on the node's own line win over those on the line above
+   */
+  function findMarker(path: any): Marker | undefined {
+    const { node, parent } = path;
+    // A marker on the line above a node also trails the node before it
+    const trailing = (owner: any): any[] =>
+      (owner?.trailingComments || []).filter(
+        (comment: any) =>
+          !owner.loc || comment.loc?.start.line === owner.loc.end.line
+      );
+    // And a marker after the node before it, on the line where that node
+    // ends, leads this one; watches inserted after that node are skipped
+    const leading = (ownerPath: any): any[] => {
+      let sibling = ownerPath?.getPrevSibling();
+      while (sibling?.node && !sibling.node.loc) {
+        sibling = sibling.getPrevSibling();
+      }
+      const previous = sibling?.node;
+      return (ownerPath?.node.leadingComments || []).filter(
+        (comment: any) =>
+          !previous?.loc || comment.loc?.start.line !== previous.loc.end.line
+      );
+    };
+    const comments = [
+      ...trailing(node),
+      // Parent comments (VariableDeclaration for VariableDeclarator)
+      ...trailing(parent),
+      ...leading(path),
+      ...leading(path.parentPath),
+    ];
+
+    const comment = comments.find(isLineMarker);
+    return comment ? parseMarkerComment(path, comment) : undefined;
+  }
+
   /**
    * Check if a line has worksheet comment
    */
   function hasWorksheetComment(path: any): boolean {
-    // Check the current node's comments
-    const leadingComments = path.node.leadingComments || [];
-    const trailingComments = path.node.trailingComments || [];
-    const allComments = [...leadingComments, ...trailingComments];
-
-    // Check parent node's comments (VariableDeclaration for VariableDeclarator)
-    let parentComments: any[] = [];
-    if (path.parent) {
-      parentComments = [
-        ...(path.parent.leadingComments || []),
-        ...(path.parent.trailingComments || []),
-      ];
-    }
-
-    const allNodeComments = [...allComments, ...parentComments];
-    const hasComment = allNodeComments.some((comment: any) =>
-      comment.value.startsWith("?")
+    return findMarker(path) !== undefined;
+  }
+
+  /**
+   * Find a marker at the end of a function's opening line, e.g.
+   * `save(user) { //?`
+   * Such a comment belongs to the first statement of the body, so it is
+   * removed there to keep that statement from being watched as well
+   */
+  function takeHeaderMarker(path: any): Marker | undefined {
+    const body = path.node.body;
+    if (!t.isBlockStatement(body) || !body.loc) return undefined;
+
+    const first = body.body[0];
+    const comments = first ? first.leadingComments : body.innerComments;
+    const index = (comments || []).findIndex(
+      (comment: any) =>
+        isLineMarker(comment) &&
+        comment.loc?.start.line === body.loc!.start.line
     );
-    return hasComment;
+    if (index === -1) return undefined;
+
+    const marker = parseMarkerComment(path, comments![index]);
+    comments!.splice(index, 1);
+    return marker;
+  }
+
+  /**
+   * Find the marker of a function, on its own line, its opening line or, for
+   * `const double = (n) => n * 2; //?`, on the declaration it initializes
+   */
+  function findFunctionMarker(path: any): Marker | undefined {
+    return (
+      findMarker(path) ||
+      // Checks the declaration and an `export` around it
+      (t.isVariableDeclarator(path.parent)
+        ? findMarker(path.parentPath.parentPath)
+        : undefined) ||
+      takeHeaderMarker(path)
+    );
+  }
+
+  /**
+   * Reference a runtime export
+   * Uses the global when injection is off, otherwise imports it once per file
+   * under a scope-safe unique name
+   */
+  function getRuntimeCallee(
+    path: any,
+    state: InlineDebuggerState,
+    name: RuntimeExport
+  ): t.Expression {
+    if (!options.injectRuntime) {
+      return t.identifier(name);
+    }
+
+    state.runtimeImports = state.runtimeImports || {};
+    let callee = state.runtimeImports[name];
+    if (!callee) {
+      // Picks `import` or `require` based on the file's source type
+      callee = addNamed(path, name, options.runtimeModule, {
+        nameHint: name,
+      }) as t.Expression;
+      state.runtimeImports[name] = callee;
+    }
+
+    return t.cloneNode(callee);
   }
 
   /**
@@ -52,16 +243,130 @@ export default function babelPluginInlineDebugger(
     return path.hub?.file?.opts?.filename || "unknown";
   }
 
+  /**
+   * Get the position of a node in the original source
+   * Nodes synthesized by earlier plugins have no location, so the closest
+   * ancestor that has one is used instead
+   */
+  function getPosition(path: any, state: InlineDebuggerState): SourcePosition {
+    const filePath = getFilePath(path);
+
+    let current = path;
+    while (current && !current.node?.loc) {
+      current = current.parentPath;
+    }
+    const loc = current?.node.loc;
+    if (!loc) {
+      return { filePath, line: 0, column: 0, endLine: 0, endColumn: 0 };
+    }
+
+    return resolvePosition(loc, filePath, state.sourceMap);
+  }
+
+  /**
+   * Create the column and end position properties of runtime calls
+   */
+  function createPositionProperties(
+    position: SourcePosition
+  ): t.ObjectProperty[] {
+    return [
+      t.objectProperty(
+        t.identifier("column"),
+        t.numericLiteral(position.column)
+      ),
+      t.objectProperty(
+        t.identifier("endLine"),
+        t.numericLiteral(position.endLine)
+      ),
+      t.objectProperty(
+        t.identifier("endColumn"),
+        t.numericLiteral(position.endColumn)
+      ),
+    ];
+  }
+
+  /**
+   * Create the properties carrying the options of a marker
+   */
+  function createMarkerProperties(marker: Marker): t.ObjectProperty[] {
+    const properties: t.ObjectProperty[] = [];
+    for (const key of ["label", "detail", "format"] as const) {
+      const value = marker[key];
+      if (value) {
+        properties.push(
+          t.objectProperty(t.identifier(key), t.stringLiteral(value))
+        );
+      }
+    }
+
+    if (marker.projection) {
+      const project = t.arrowFunctionExpression(
+        [t.identifier("$")],
+        template.expression.ast(marker.projection)
+      );
+      generated.add(project);
+      properties.push(
+        t.objectProperty(
+          t.identifier("projection"),
+          t.stringLiteral(marker.projection)
+        ),
+        t.objectProperty(t.identifier("project"), project)
+      );
+    }
+
+    if (marker.time) {
+      properties.push(
+        t.objectProperty(t.identifier("time"), t.booleanLiteral(true))
+      );
+    }
+
+    if (marker.stack) {
+      properties.push(
+        t.objectProperty(
+          t.identifier("captureStack"),
+          t.valueToNode(marker.stack)
+        )
+      );
+    }
+
+    if (marker.sample) {
+      properties.push(
+        t.objectProperty(t.identifier("sample"), t.valueToNode(marker.sample))
+      );
+    }
+
+    if (marker.condition) {
+      // Evaluated in the scope of the marked code, so locals can be used
+      const when = t.arrowFunctionExpression(
+        [t.identifier("$")],
+        template.expression.ast(marker.condition)
+      );
+      generated.add(when);
+      properties.push(
+        t.objectProperty(
+          t.identifier("condition"),
+          t.stringLiteral(marker.condition)
+        ),
+        t.objectProperty(t.identifier("when"), when)
+      );
+    }
+
+    return properties;
+  }
+
   /**
    * Create watch call
    */
   function createWatchCall(
     path: any,
+    state: InlineDebuggerState,
     type: string,
-    variable?: string
+    variable?: string,
+    callee: RuntimeExport = "inlineDebuggerWatch",
+    marker: Marker | undefined = findMarker(path)
   ): t.CallExpression {
-    const filePath = getFilePath(path);
-    const line = path.node.loc?.start?.line || 0;
+    const position = getPosition(path, state);
+    const { filePath, line } = position;
 
     const watchObject: t.ObjectExpression = {
       type: "ObjectExpression",
@@ -73,6 +378,7 @@ export default function babelPluginInlineDebugger(
           t.identifier("called"),
           t.arrowFunctionExpression([], t.blockStatement([]))
         ),
+        ...createPositionProperties(position),
       ],
     };
 
@@ -82,7 +388,24 @@ export default function babelPluginInlineDebugger(
       );
     }
 
-    return t.callExpression(t.identifier("inlineDebuggerWatch"), [watchObject]);
+    if (marker) {
+      watchObject.properties.push(...createMarkerProperties(marker));
+    }
+
+    if (options.outputFile) {
+      watchObject.properties.push(
+        t.objectProperty(
+          t.identifier("outputFile"),
+          t.stringLiteral(options.outputFile)
+        )
+      );
+    }
+
+    const watchCall = t.callExpression(getRuntimeCallee(path, state, callee), [
+      watchObject,
+    ]);
+    generated.add(watchCall);
+    return watchCall;
   }
 
   /**
@@ -90,38 +413,656 @@ export default function babelPluginInlineDebugger(
    */
   function wrapWithLog(
     path: any,
+    state: InlineDebuggerState,
     logFn: t.Identifier,
     args: t.Expression[]
   ): void {
-    const filePath = getFilePath(path);
-    const line = path.node.loc?.start?.line || 0;
+    const position = getPosition(path, state);
+    const { filePath, line } = position;
 
-    const mylogCall = t.callExpression(t.identifier("debugLog"), [
-      logFn,
-      t.objectExpression([
-        t.objectProperty(t.identifier("type"), t.stringLiteral("log")),
-        t.objectProperty(t.identifier("filePath"), t.stringLiteral(filePath)),
-        t.objectProperty(t.identifier("line"), t.numericLiteral(line)),
-        t.objectProperty(t.identifier("called"), t.arrayExpression(args)),
-      ]),
+    const logObject = t.objectExpression([
+      t.objectProperty(t.identifier("type"), t.stringLiteral("log")),
+      t.objectProperty(t.identifier("filePath"), t.stringLiteral(filePath)),
+      t.objectProperty(t.identifier("line"), t.numericLiteral(line)),
+      t.objectProperty(t.identifier("called"), t.arrayExpression(args)),
+      ...createPositionProperties(position),
     ]);
 
+    const marker = findMarker(path);
+    if (marker) {
+      // A projection applies to a single value, logs have several
+      const { projection, ...rest } = marker;
+      logObject.properties.push(...createMarkerProperties(rest));
+    }
+
+    if (options.outputFile) {
+      logObject.properties.push(
+        t.objectProperty(
+          t.identifier("outputFile"),
+          t.stringLiteral(options.outputFile)
+        )
+      );
+    }
+
+    const mylogCall = t.callExpression(
+      getRuntimeCallee(path, state, "debugLog"),
+      [logFn, logObject]
+    );
+
     path.replaceWith(mylogCall);
   }
 
+  /**
+   * Name of a method key or declared binding, or a fallback for computed
+   * keys and patterns
+   */
+  function getKeyName(key: any, fallback: string): string {
+    if (t.isIdentifier(key) || t.isPrivateName(key)) {
+      return t.isPrivateName(key) ? `#${key.id.name}` : key.name;
+    }
+    if (t.isStringLiteral(key) || t.isNumericLiteral(key)) {
+      return String(key.value);
+    }
+    return fallback;
+  }
+
+  /**
+   * Create an object holding the value of every parameter binding, read
+   * once the parameters are bound
+   */
+  function createArgsObject(params: any[]): t.ObjectExpression {
+    const names = params.flatMap((param: any): string[] => {
+      const target = t.isTSParameterProperty(param) ? param.parameter : param;
+      // TypeScript's `this` parameter only exists in types
+      if (t.isIdentifier(target, { name: "this" })) return [];
+      return Object.keys(t.getBindingIdentifiers(target));
+    });
+
+    return t.objectExpression(
+      names.map((name: string) =>
+        t.objectProperty(t.identifier(name), t.identifier(name), false, true)
+      )
+    );
+  }
+
+  /**
+   * Route every call of a function through the runtime
+   * The body moves into an arrow function, which keeps `this`, `arguments`,
+   * `super` and `new.target` of the original function
+   */
+  function wrapFunctionBody(
+    path: any,
+    state: InlineDebuggerState,
+    type: string,
+    name: string,
+    marker: Marker
+  ): void {
+    const { node } = path;
+    // `yield` cannot cross into another function
+    if (node.generator || generated.has(node)) return;
+    generated.add(node);
+
+    const called = t.arrowFunctionExpression([], node.body, node.async);
+    const callExpression = createWatchCall(
+      path,
+      state,
+      type,
+      name,
+      "inlineDebuggerCall",
+      marker
+    );
+    const callObject = callExpression.arguments[0] as t.ObjectExpression;
+    const calledProperty = callObject.properties[3] as t.ObjectProperty;
+    calledProperty.value = called;
+    generated.add(called);
+
+    callObject.properties.push(
+      t.objectProperty(t.identifier("args"), createArgsObject(node.params))
+    );
+    // Arrow functions have no `this` of their own
+    if (!t.isArrowFunctionExpression(node)) {
+      const self = t.arrowFunctionExpression([], t.thisExpression());
+      generated.add(self);
+      callObject.properties.push(t.objectProperty(t.identifier("self"), self));
+    }
+
+    node.body = t.blockStatement([t.returnStatement(callExpression)]);
+  }
+
+  /**
+   * Check if a call is `console.<method>(...)`
+   */
+  function isConsoleCall(node: any): boolean {
+    return (
+      t.isCallExpression(node) &&
+      t.isMemberExpression(node.callee) &&
+      t.isIdentifier(node.callee.object, { name: "console" }) &&
+      t.isIdentifier(node.callee.property)
+    );
+  }
+
+  /**
+   * Watch the operand of an `await`, which is evaluated once inside the watch
+   * The runtime hands back the original promise and records what it settles
+   * to, so the `await` around the watch is unchanged
+   */
+  function watchArgument(
+    path: any,
+    state: InlineDebuggerState,
+    type: string,
+    argument: t.Expression,
+    variable?: string,
+    marker?: Marker
+  ): t.CallExpression {
+    const watchCall = createWatchCall(
+      path,
+      state,
+      type,
+      variable,
+      "inlineDebuggerWatch",
+      marker
+    );
+    const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+    const calledProperty = watchObject.properties[3] as t.ObjectProperty;
+    calledProperty.value = t.arrowFunctionExpression([], argument);
+    generated.add(watchCall);
+    return watchCall;
+  }
+
+  /**
+   * Bind the name a declaration initializes to the watched value in its
+   * condition, which runs before the declaration completes, e.g.
+   * `const user = load(id); //? if user.active`
+   */
+  function bindConditionName(watchCall: t.CallExpression, name: string): void {
+    const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+    const when = watchObject.properties.find(
+      (property): property is t.ObjectProperty =>
+        property.type === "ObjectProperty" &&
+        t.isIdentifier(property.key, { name: "when" })
+    );
+    if (!when || name === "$") return;
+
+    const condition = when.value as t.ArrowFunctionExpression;
+    let reads = false;
+    t.traverseFast(condition.body, (node: t.Node) => {
+      if (t.isIdentifier(node, { name })) reads = true;
+    });
+    if (reads) {
+      condition.params.push(
+        t.assignmentPattern(t.identifier(name), t.identifier("$"))
+      );
+    }
+  }
+
+  /**
+   * Check if a statement awaits or yields outside of nested functions
+   * Such code cannot move into the arrow function of a watch
+   */
+  function pausesFunction(path: any): boolean {
+    let pauses = false;
+    path.traverse({
+      Function(inner: any) {
+        inner.skip();
+      },
+      "AwaitExpression|YieldExpression"(inner: any) {
+        pauses = true;
+        inner.stop();
+      },
+    });
+    return pauses;
+  }
+
+  /**
+   * Readable name of a callee, e.g. `items.push` or `api?.users.get`
+   */
+  function getCalleeName(node: any): string {
+    if (t.isIdentifier(node)) return node.name;
+    if (t.isThisExpression(node)) return "this";
+    if (t.isSuper(node)) return "super";
+    if (t.isCallExpression(node) || t.isOptionalCallExpression(node)) {
+      return `${getCalleeName(node.callee)}()`;
+    }
+    if (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) {
+      const object = getCalleeName(node.object);
+      if (!node.computed) {
+        return `${object}${node.optional ? "?." : "."}${getKeyName(
+          node.property,
+          "…"
+        )}`;
+      }
+      const key =
+        t.isStringLiteral(node.property) || t.isNumericLiteral(node.property)
+          ? JSON.stringify(node.property.value)
+          : "…";
+      return `${object}${node.optional ? "?." : ""}[${key}]`;
+    }
+    return "(…)";
+  }
+
+  /**
+   * Watch the result of a call statement, e.g. `items.push(item); //?`
+   * The call runs once, inside the watch, so `this` and optional chaining
+   * behave as before; with `captureReceiver` the object a method is called
+   * on passes through `receive` so the runtime can record it after the call
+   */
+  function watchCallStatement(path: any, state: InlineDebuggerState): void {
+    const call = path.node.expression;
+    const watchCall = createWatchCall(
+      path,
+      state,
+      "call",
+      getCalleeName(call.callee)
+    );
+    const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+    const calledProperty = watchObject.properties[3] as t.ObjectProperty;
+
+    const params: t.Identifier[] = [];
+    const callee = call.callee;
+    if (
+      options.captureReceiver &&
+      (t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) &&
+      !t.isSuper(callee.object) &&
+      // Wrapping part of an optional chain would end its short-circuit
+      !t.isOptionalMemberExpression(callee.object) &&
+      !t.isOptionalCallExpression(callee.object)
+    ) {
+      const receive = path.scope.generateUidIdentifier("receive");
+      params.push(receive);
+      callee.object = t.callExpression(t.cloneNode(receive), [callee.object]);
+    }
+
+    const called = t.arrowFunctionExpression(params, call);
+    generated.add(called);
+    calledProperty.value = called;
+
+    path.node.expression = watchCall;
+  }
+
+  /**
+   * Collect the names bound by a pattern with the path their value came
+   * from, e.g. `id` from `user.id` for `const { id } = user`
+   */
+  function collectBindings(
+    path: any,
+    source: string
+  ): { path: any; binding: string }[] {
+    if (path.isAssignmentPattern()) {
+      return collectBindings(path.get("left"), source);
+    }
+    if (path.isObjectPattern()) {
+      return path.get("properties").flatMap((property: any) => {
+        if (property.isRestElement()) {
+          return collectBindings(property.get("argument"), source);
+        }
+        const { key, computed } = property.node;
+        const access =
+          !computed && t.isIdentifier(key)
+            ? `.${key.name}`
+            : `[${
+                t.isStringLiteral(key) || t.isNumericLiteral(key)
+                  ? JSON.stringify(key.value)
+                  : computed && t.isIdentifier(key)
+                  ? key.name
+                  : "…"
+              }]`;
+        return collectBindings(property.get("value"), `${source}${access}`);
+      });
+    }
+    if (path.isArrayPattern()) {
+      return path.get("elements").flatMap((element: any, index: number) => {
+        if (!element.node) return [];
+        if (element.isRestElement()) {
+          return collectBindings(
+            element.get("argument"),
+            `${source}.slice(${index})`
+          );
+        }
+        return collectBindings(element, `${source}[${index}]`);
+      });
+    }
+    return [{ path, binding: source }];
+  }
+
+  /**
+   * Name of a destructured value, `load()` for `await load()`
+   */
+  function getSourceName(node: any): string {
+    while (
+      t.isAwaitExpression(node) ||
+      t.isTSAsExpression(node) ||
+      t.isTSNonNullExpression(node)
+    ) {
+      node = t.isAwaitExpression(node) ? node.argument : node.expression;
+    }
+    return node ? getCalleeName(node) : "(…)";
+  }
+
+  /**
+   * Check if a target can be read again without side effects, e.g. `total`,
+   * `this.total` or `items[index]`
+   */
+  function isReadableTarget(node: any): boolean {
+    if (t.isIdentifier(node) || t.isThisExpression(node)) return true;
+    if (!t.isMemberExpression(node)) return false;
+    if (
+      node.computed &&
+      !t.isIdentifier(node.property) &&
+      !t.isStringLiteral(node.property) &&
+      !t.isNumericLiteral(node.property)
+    ) {
+      return false;
+    }
+    return isReadableTarget(node.object);
+  }
+
+  /**
+   * Watch assigned targets once the statement ran, e.g. `count++; //?` or
+   * `const { id, name } = user; //?`, one entry per target
+   * Targets are read again, so the statement itself stays untouched and may
+   * await
+   */
+  function watchTargets(
+    statement: any,
+    state: InlineDebuggerState,
+    targets: { path: any; binding?: string }[],
+    marker: Marker
+  ): void {
+    const watches = targets
+      .filter((target) => isReadableTarget(target.path.node))
+      .map((target) => {
+        const { node } = target.path;
+        const watchCall = createWatchCall(
+          target.path,
+          state,
+          "variable",
+          getCalleeName(node),
+          "inlineDebuggerWatch",
+          marker
+        );
+        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
+        const called = t.arrowFunctionExpression([], t.cloneNode(node));
+        generated.add(called);
+        calledProperty.value = called;
+
+        // Paths into unnamed values, e.g. `(…)[0]`, tell nothing
+        if (target.binding && !target.binding.startsWith("(…)")) {
+          watchObject.properties.push(
+            t.objectProperty(
+              t.identifier("binding"),
+              t.stringLiteral(target.binding)
+            )
+          );
+        }
+        return t.expressionStatement(watchCall);
+      });
+
+    if (watches.length) {
+      statement.insertAfter(watches);
+    }
+  }
+
+  /**
+   * Watch every name a marked declaration destructures into
+   */
+  function watchDestructuring(
+    path: any,
+    state: InlineDebuggerState,
+    marker: Marker
+  ): void {
+    let statement = path.parentPath;
+    if (statement.parentPath.isExportNamedDeclaration()) {
+      statement = statement.parentPath;
+    }
+    // Declarations of `for` loops have no place for statements after them
+    if (!Array.isArray(statement.container)) return;
+
+    watchTargets(
+      statement,
+      state,
+      collectBindings(path.get("id"), getSourceName(path.node.init)),
+      marker
+    );
+  }
+
+  /**
+   * Watch the targets of an assignment or update statement, e.g.
+   * `this.total += n; //?`, `[a, b] = [b, a]; //?`
+   */
+  function watchAssignment(path: any, state: InlineDebuggerState): void {
+    const expression = path.get("expression");
+    const marker = findMarker(path)!;
+
+    if (expression.isUpdateExpression()) {
+      watchTargets(path, state, [{ path: expression.get("argument") }], marker);
+      return;
+    }
+
+    const left = expression.get("left");
+    const targets =
+      left.isObjectPattern() || left.isArrayPattern()
+        ? collectBindings(left, getSourceName(expression.node.right))
+        : [{ path: left }];
+    watchTargets(path, state, targets, marker);
+  }
+
+  /**
+   * Find the block comment marker placed right before or after an expression
+   * Babel attaches such comments to the outermost node starting or ending
+   * there, so markers of a statement or declarator that shares the edge of
+   * the expression count as well
+   */
+  function findInlineMarker(path: any): any {
+    const { node, parent } = path;
+    const isBlockMarker = (comment: any) =>
+      comment.type === "CommentBlock" && isMarkerComment(comment);
+
+    // A marker after `(order) => order.total` is meant for the body
+    const endsWithBody =
+      t.isArrowFunctionExpression(node) && node.body.end === node.end;
+    const own = [
+      ...(endsWithBody ? [] : node.trailingComments || []),
+      ...(node.leadingComments || []),
+    ].find(isBlockMarker);
+    const isArrowBody =
+      t.isArrowFunctionExpression(parent) && path.key === "body";
+    if (own || !parent || (t.isExpression(parent) && !isArrowBody)) {
+      return own;
+    }
+
+    return [
+      ...(parent.end === node.end ? parent.trailingComments || [] : []),
+      ...(parent.start === node.start ? parent.leadingComments || [] : []),
+    ].find(isBlockMarker);
+  }
+
+  /**
+   * Explain why an expression cannot be replaced by a watch, if it cannot
+   */
+  function getInlineMarkerError(path: any): string | undefined {
+    const { node, parent, parentPath, key } = path;
+
+    if (
+      (t.isIdentifier(node) && !path.isReferencedIdentifier()) ||
+      parentPath.isPattern() ||
+      (parentPath.isAssignmentExpression() && key === "left") ||
+      parentPath.isUpdateExpression() ||
+      (parentPath.isForXStatement() && key === "left") ||
+      parentPath.isUnaryExpression({ operator: "delete" })
+    ) {
+      return "only expressions that are read can be watched, not assignment targets, keys or names";
+    }
+    if (
+      t.isMemberExpression(node) &&
+      ((parentPath.isCallExpression() && key === "callee") ||
+        (parentPath.isTaggedTemplateExpression() && key === "tag"))
+    ) {
+      return "a method cannot be watched apart from its call, place the marker after the call";
+    }
+    if (
+      (t.isOptionalMemberExpression(node) ||
+        t.isOptionalCallExpression(node)) &&
+      (t.isOptionalMemberExpression(parent) ||
+        t.isOptionalCallExpression(parent)) &&
+      !parent.optional
+    ) {
+      return "part of an optional chain cannot be watched, place the marker after the whole chain";
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace an expression marked with a block marker by a watch of its value
+   * The expression still runs once and in place, so evaluation order and
+   * short-circuiting stay the same
+   */
+  function watchInlineExpression(
+    path: any,
+    state: InlineDebuggerState,
+    comment: any
+  ): void {
+    const fail = (message: string) =>
+      path.hub.buildError(
+        comment,
+        `[babel-plugin-inline-debugger] Invalid marker "${formatComment(
+          comment
+        )}": ${message}`,
+        SyntaxError
+      );
+
+    const error = getInlineMarkerError(path);
+    if (error) {
+      throw fail(error);
+    }
+
+    // The runtime records what an awaited promise resolves to
+    const target = t.isAwaitExpression(path.node) ? path.get("argument") : path;
+    if (
+      pausesFunction(target) ||
+      target.isAwaitExpression() ||
+      target.isYieldExpression()
+    ) {
+      throw fail(
+        "expressions containing await or yield cannot be watched, place the marker inside them"
+      );
+    }
+
+    const { node } = target;
+    const name =
+      t.isIdentifier(node) ||
+      t.isMemberExpression(node) ||
+      t.isOptionalMemberExpression(node) ||
+      t.isCallExpression(node) ||
+      t.isOptionalCallExpression(node)
+        ? getCalleeName(node)
+        : undefined;
+
+    const watchCall = createWatchCall(
+      target,
+      state,
+      "expression",
+      name,
+      "inlineDebuggerWatch",
+      parseMarkerComment(path, comment)
+    );
+    const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+    const calledProperty = watchObject.properties[3] as t.ObjectProperty;
+    const called = t.arrowFunctionExpression([], node);
+    generated.add(called);
+    generated.add(node);
+    calledProperty.value = called;
+
+    target.replaceWith(watchCall);
+  }
+
   return {
     name: "babel-plugin-inline-debugger",
+    pre(file: any) {
+      this.instrumentFile = isFileIncluded(
+        file.opts.filename ?? undefined,
+        file.opts.cwd ?? process.cwd()
+      );
+      // Positions are reported against the original source when code was
+      // already transformed, e.g. by a codegen step or a macro
+      this.sourceMap = createSourceMap(file.inputMap?.toObject());
+    },
     visitor: {
+      // Sub-expressions marked with block comment markers
+      Expression(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "inline")) return;
+        if (generated.has(path.node)) return;
+
+        const comment = findInlineMarker(path);
+        if (!comment) return;
+
+        watchInlineExpression(path, state, comment);
+      },
+
+      // Babel does not visit names and assignment targets as expressions,
+      // markers on them are reported here
+      Identifier(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "inline")) return;
+        if (path.isReferencedIdentifier()) return;
+
+        const comment = findInlineMarker(path);
+        if (!comment) return;
+
+        watchInlineExpression(path, state, comment);
+      },
+
       // Variable declarations
-      VariableDeclarator(path: any) {
-        if (!hasWorksheetComment(path)) return;
+      VariableDeclarator(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "variable")) return;
+        const marker =
+          findMarker(path) ||
+          // Marker after `export const ...`
+          (t.isExportNamedDeclaration(path.parentPath.parent)
+            ? findMarker(path.parentPath)
+            : undefined);
+        if (!marker) return;
+        if (t.isObjectPattern(path.node.id) || t.isArrayPattern(path.node.id)) {
+          watchDestructuring(path, state, marker);
+          return;
+        }
         if (!t.isIdentifier(path.node.id)) return;
+        // Marked arrow functions record their calls instead
+        if (
+          t.isArrowFunctionExpression(path.node.init) &&
+          shouldInstrument(state, "arrow")
+        )
+          return;
 
         const variableName = path.node.id.name;
         const init = path.node.init;
 
+        // `const user = await load()` watches the promise, which settles to
+        // the value before the declaration completes
+        if (t.isAwaitExpression(init)) {
+          if (pausesFunction(path.get("init.argument"))) return;
+          init.argument = watchArgument(
+            path,
+            state,
+            "variable",
+            init.argument,
+            variableName,
+            marker
+          );
+          bindConditionName(init.argument, variableName);
+          return;
+        }
+        // Other awaits cannot move into the arrow function of the watch
+        if (init && pausesFunction(path)) return;
+
         if (init) {
-          const watchCall = createWatchCall(path, "variable", variableName);
+          const watchCall = createWatchCall(
+            path,
+            state,
+            "variable",
+            variableName,
+            "inlineDebuggerWatch",
+            marker
+          );
           const watchObject = watchCall.arguments[0] as t.ObjectExpression;
           const calledProperty = watchObject.properties[3] as t.ObjectProperty;
           calledProperty.value = t.arrowFunctionExpression(
@@ -129,17 +1070,82 @@ export default function babelPluginInlineDebugger(
             t.blockStatement([t.returnStatement(init)])
           );
 
-          path.node.init = t.sequenceExpression([watchCall, init]);
+          bindConditionName(watchCall, variableName);
+
+          // The initializer runs once, inside the watch, which returns its
+          // value
+          path.node.init = watchCall;
         }
       },
 
+      // Class fields, the initializer runs once inside the watch
+      "ClassProperty|ClassPrivateProperty"(
+        path: any,
+        state: InlineDebuggerState
+      ) {
+        if (!shouldInstrument(state, "property")) return;
+        const { value } = path.node;
+        if (!value || generated.has(value)) return;
+        // Marked arrow functions record their calls instead
+        if (
+          t.isArrowFunctionExpression(value) &&
+          shouldInstrument(state, "arrow")
+        )
+          return;
+        if (!hasWorksheetComment(path)) return;
+
+        const watchCall = createWatchCall(
+          path,
+          state,
+          "variable",
+          getKeyName(path.node.key, "[…]")
+        );
+        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
+        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
+        const called = t.arrowFunctionExpression([], value);
+        generated.add(called);
+        generated.add(value);
+        calledProperty.value = called;
+
+        path.node.value = watchCall;
+      },
+
       // Expression statements
-      ExpressionStatement(path: any) {
+      ExpressionStatement(path: any, state: InlineDebuggerState) {
+        const { expression } = path.node;
+        if (generated.has(expression)) return;
+        if (
+          t.isCallExpression(expression) ||
+          t.isOptionalCallExpression(expression)
+        ) {
+          // Console calls are logged by the CallExpression visitor
+          if (isConsoleCall(expression)) return;
+          if (!shouldInstrument(state, "call")) return;
+          if (!hasWorksheetComment(path)) return;
+          if (pausesFunction(path)) return;
+
+          watchCallStatement(path, state);
+          return;
+        }
+        if (
+          t.isAssignmentExpression(expression) ||
+          t.isUpdateExpression(expression)
+        ) {
+          if (!shouldInstrument(state, "assignment")) return;
+          if (!hasWorksheetComment(path)) return;
+
+          watchAssignment(path, state);
+          return;
+        }
+
+        // Left to the AwaitExpression visitor
+        if (t.isAwaitExpression(expression)) return;
+
+        if (!shouldInstrument(state, "expression")) return;
         if (!hasWorksheetComment(path)) return;
-        if (t.isCallExpression(path.node.expression)) return;
+        if (pausesFunction(path)) return;
 
-        const expression = path.node.expression;
-        const watchCall = createWatchCall(path, "expression");
+        const watchCall = createWatchCall(path, state, "expression");
         const watchObject = watchCall.arguments[0] as t.ObjectExpression;
         const calledProperty = watchObject.properties[3] as t.ObjectProperty;
         calledProperty.value = t.arrowFunctionExpression(
@@ -147,50 +1153,46 @@ export default function babelPluginInlineDebugger(
           t.blockStatement([t.returnStatement(expression)])
         );
 
-        path.replaceWith(
-          t.expressionStatement(t.sequenceExpression([watchCall, expression]))
-        );
+        // The expression runs once, inside the watch; the statement is not
+        // visited again as the watch is generated
+        path.node.expression = watchCall;
       },
 
       // Console.log statements
-      CallExpression(path: any) {
+      CallExpression(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "log")) return;
         if (!hasWorksheetComment(path)) return;
-        if (!t.isMemberExpression(path.node.callee)) return;
-        if (!t.isIdentifier(path.node.callee.object, { name: "console" }))
-          return;
-        if (!t.isIdentifier(path.node.callee.property)) return;
+        if (!isConsoleCall(path.node)) return;
 
         const logMethod = path.node.callee.property.name;
         const logFn = t.identifier(`console.${logMethod}`);
         const args = path.node.arguments as t.Expression[];
 
-        wrapWithLog(path, logFn, args);
+        wrapWithLog(path, state, logFn, args);
       },
 
       // Await expressions
-      AwaitExpression(path: any) {
+      AwaitExpression(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "await")) return;
+        if (generated.has(path.node.argument)) return;
         if (!hasWorksheetComment(path)) return;
+        if (pausesFunction(path.get("argument"))) return;
 
-        const argument = path.node.argument;
-        const watchCall = createWatchCall(path, "await");
-        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
-        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
-        calledProperty.value = t.arrowFunctionExpression(
-          [],
-          t.blockStatement([t.returnStatement(argument)])
-        );
-
-        path.replaceWith(
-          t.sequenceExpression([watchCall, t.awaitExpression(argument)])
+        path.node.argument = watchArgument(
+          path,
+          state,
+          "await",
+          path.node.argument
         );
       },
 
       // Throw statements
-      ThrowStatement(path: any) {
+      ThrowStatement(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "throw")) return;
         if (!hasWorksheetComment(path)) return;
 
         const argument = path.node.argument;
-        const watchCall = createWatchCall(path, "throw");
+        const watchCall = createWatchCall(path, state, "throw");
         const watchObject = watchCall.arguments[0] as t.ObjectExpression;
         const calledProperty = watchObject.properties[3] as t.ObjectProperty;
         calledProperty.value = t.arrowFunctionExpression(
@@ -208,12 +1210,26 @@ export default function babelPluginInlineDebugger(
       },
 
       // Return statements
-      ReturnStatement(path: any) {
+      ReturnStatement(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "return")) return;
         if (!hasWorksheetComment(path)) return;
         if (!path.node.argument) return;
 
         const argument = path.node.argument;
-        const watchCall = createWatchCall(path, "return");
+        // `return await load()` watches the promise
+        if (t.isAwaitExpression(argument)) {
+          if (pausesFunction(path.get("argument.argument"))) return;
+          argument.argument = watchArgument(
+            path,
+            state,
+            "return",
+            argument.argument
+          );
+          return;
+        }
+        if (pausesFunction(path)) return;
+
+        const watchCall = createWatchCall(path, state, "return");
         const watchObject = watchCall.arguments[0] as t.ObjectExpression;
         const calledProperty = watchObject.properties[3] as t.ObjectProperty;
         calledProperty.value = t.arrowFunctionExpression(
@@ -221,78 +1237,65 @@ export default function babelPluginInlineDebugger(
           t.blockStatement([t.returnStatement(argument)])
         );
 
-        path.node.argument = t.sequenceExpression([watchCall, argument]);
+        path.node.argument = watchCall;
       },
 
       // Function declarations
-      FunctionDeclaration(path: any) {
-        if (!hasWorksheetComment(path)) return;
+      FunctionDeclaration(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "function")) return;
+        const marker = findFunctionMarker(path);
+        if (!marker) return;
 
-        const functionName = path.node.id?.name || "anonymous";
-        const watchCall = createWatchCall(path, "function", functionName);
-        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
-        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
-        calledProperty.value = t.arrowFunctionExpression(
-          [],
-          t.blockStatement([t.returnStatement(t.identifier(functionName))])
+        wrapFunctionBody(
+          path,
+          state,
+          "function",
+          path.node.id?.name || "anonymous",
+          marker
         );
-
-        path.insertBefore(t.expressionStatement(watchCall));
       },
 
       // Arrow functions
-      ArrowFunctionExpression(path: any) {
-        if (!hasWorksheetComment(path)) return;
+      ArrowFunctionExpression(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "arrow")) return;
+        if (generated.has(path.node)) return;
+        const marker = findFunctionMarker(path);
+        if (!marker) return;
 
-        const watchCall = createWatchCall(path, "arrow");
-        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
-        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
-        calledProperty.value = t.arrowFunctionExpression(
-          [],
-          t.blockStatement([
-            t.returnStatement(
-              t.arrowFunctionExpression(path.node.params, path.node.body)
-            ),
-          ])
-        );
-
-        path.replaceWith(t.sequenceExpression([watchCall, path.node]));
+        const name = t.isVariableDeclarator(path.parent)
+          ? getKeyName(path.parent.id, "arrow")
+          : "arrow";
+        wrapFunctionBody(path, state, "arrow", name, marker);
       },
 
       // Class methods
-      ClassMethod(path: any) {
-        if (!hasWorksheetComment(path)) return;
+      ClassMethod(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "method")) return;
+        const marker = findFunctionMarker(path);
+        if (!marker) return;
 
-        const methodName = t.isIdentifier(path.node.key)
-          ? path.node.key.name
-          : "method";
-        const watchCall = createWatchCall(path, "method", methodName);
-        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
-        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
-        calledProperty.value = t.arrowFunctionExpression(
-          [],
-          t.blockStatement([t.returnStatement(t.identifier(methodName))])
+        wrapFunctionBody(
+          path,
+          state,
+          "method",
+          getKeyName(path.node.key, "method"),
+          marker
         );
-
-        path.insertBefore(t.expressionStatement(watchCall));
       },
 
       // Object methods
-      ObjectMethod(path: any) {
-        if (!hasWorksheetComment(path)) return;
+      ObjectMethod(path: any, state: InlineDebuggerState) {
+        if (!shouldInstrument(state, "objectMethod")) return;
+        const marker = findFunctionMarker(path);
+        if (!marker) return;
 
-        const methodName = t.isIdentifier(path.node.key)
-          ? path.node.key.name
-          : "method";
-        const watchCall = createWatchCall(path, "objectMethod", methodName);
-        const watchObject = watchCall.arguments[0] as t.ObjectExpression;
-        const calledProperty = watchObject.properties[3] as t.ObjectProperty;
-        calledProperty.value = t.arrowFunctionExpression(
-          [],
-          t.blockStatement([t.returnStatement(t.identifier(methodName))])
+        wrapFunctionBody(
+          path,
+          state,
+          "objectMethod",
+          getKeyName(path.node.key, "method"),
+          marker
         );
-
-        path.insertBefore(t.expressionStatement(watchCall));
       },
     },
   };
@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { startCollector } from "./collector";
+import { renderHtml, renderSource } from "./render";
+import { followFile, followSocket } from "./live";
+import {
+  filterEntries,
+  formatEntryLines,
+  formatReport,
+  formatTree,
+  parseLineRange,
+} from "./report";
+import { readOutput, writeMergedShards } from "./shards";
+import { DebugData, ReportFilters } from "./types";
+
+const DEFAULT_OUTPUT_FILE = ".debug.data.json";
+
+export interface CliArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  run: (args: CliArgs) => number;
+}
+
+/**
+ * Parse `--flag`, `--flag value`, `--flag=value` and `--no-flag` arguments
+ * Flags listed in `booleans` never consume the following argument
+ */
+export function parseArgs(argv: string[], booleans: string[] = []): CliArgs {
+  const args: CliArgs = { positionals: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+
+    if (arg === "--") {
+      args.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      args.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s) as [
+      string,
+      string | undefined
+    ];
+    if (inlineValue !== undefined) {
+      args.flags[name] = inlineValue;
+    } else if (name.startsWith("no-")) {
+      args.flags[name.slice(3)] = false;
+    } else if (
+      !booleans.includes(name) &&
+      argv[i + 1] !== undefined &&
+      !(argv[i + 1] as string).startsWith("--")
+    ) {
+      args.flags[name] = argv[++i] as string;
+    } else {
+      args.flags[name] = true;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read a string flag
+ */
+function stringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Read a comma-separated list flag
+ */
+function listFlag(args: CliArgs, name: string): string[] | undefined {
+  const value = stringFlag(args, name);
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build report filters from `--file`, `--line`, `--type` and `--variable`
+ */
+function parseFilters(args: CliArgs): ReportFilters {
+  const filters: ReportFilters = {};
+  const files = listFlag(args, "file");
+  const line = stringFlag(args, "line");
+  const types = listFlag(args, "type");
+  const variables = listFlag(args, "variable");
+
+  if (files) filters.files = files;
+  if (line) filters.lines = parseLineRange(line);
+  if (types) filters.types = types;
+  if (variables) filters.variables = variables;
+  return filters;
+}
+
+const commands: Record<string, Command> = {
+  report: {
+    usage:
+      "report [outputFile] [--file glob,...] [--line from-to] [--type type,...] [--variable name,...] [--json] [--tree]",
+    description:
+      "Print captured data grouped by file, or by trace span with --tree",
+    run(args) {
+      const outputFile = args.positionals[0] ?? DEFAULT_OUTPUT_FILE;
+      const entries = filterEntries(readOutput(outputFile), parseFilters(args));
+
+      if (args.flags["json"]) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else if (entries.length) {
+        console.log(
+          args.flags["tree"] ? formatTree(entries) : formatReport(entries)
+        );
+      } else {
+        console.log("No entries found");
+      }
+      return 0;
+    },
+  },
+
+  render: {
+    usage:
+      "render [outputFile] [--html file] [--width n] [--no-color] [report filters]",
+    description:
+      "Print instrumented source files with captured values next to marked lines",
+    run(args) {
+      const outputFile = args.positionals[0] ?? DEFAULT_OUTPUT_FILE;
+      const entries = filterEntries(readOutput(outputFile), parseFilters(args));
+      const html = stringFlag(args, "html");
+
+      if (html) {
+        fs.writeFileSync(html, renderHtml(entries));
+        console.log(`Wrote ${entries.length} entries to ${html}`);
+        return 0;
+      }
+
+      const width = stringFlag(args, "width");
+      const color =
+        typeof args.flags["color"] === "boolean"
+          ? args.flags["color"]
+          : !!process.stdout.isTTY && !process.env["NO_COLOR"];
+      console.log(
+        entries.length
+          ? renderSource(entries, {
+              color,
+              ...(width !== undefined && { width: Number(width) }),
+            })
+          : "No entries found"
+      );
+      return 0;
+    },
+  },
+
+  tail: {
+    usage:
+      "tail [outputFile] [--socket path] [--all] [--interval ms] [--json] [report filters]",
+    description:
+      "Print entries as they are written to the output file, or streamed to a socket by the runtime",
+    run(args) {
+      const filters = parseFilters(args);
+      const json = args.flags["json"] === true;
+      const print = (entries: DebugData[]) => {
+        for (const item of filterEntries(entries, filters)) {
+          console.log(
+            json ? JSON.stringify(item) : formatEntryLines(item).join("\n")
+          );
+        }
+      };
+
+      const socket = stringFlag(args, "socket");
+      if (socket) {
+        followSocket(socket, print, (error) => {
+          if (error) {
+            console.error(`inline-debugger tail: ${error.message}`);
+            process.exitCode = 1;
+          }
+        });
+        return 0;
+      }
+
+      const outputFile = args.positionals[0] ?? DEFAULT_OUTPUT_FILE;
+      const interval = stringFlag(args, "interval");
+      followFile(path.resolve(outputFile), print, {
+        all: args.flags["all"] === true,
+        ...(interval !== undefined && { interval: Number(interval) }),
+      });
+      console.error(`Following ${outputFile}, press Ctrl+C to stop`);
+      return 0;
+    },
+  },
+
+  serve: {
+    usage:
+      "serve [--port n] [--host address] [--origin url,...] [--socket path]",
+    description:
+      "Collect entries sent by the browser runtime into output files in the current directory",
+    run(args) {
+      const port = stringFlag(args, "port");
+      if (port !== undefined && !/^\d+$/.test(port)) {
+        throw new Error(`Invalid port "${port}"`);
+      }
+      const host = stringFlag(args, "host");
+      const socket = stringFlag(args, "socket");
+      const origins = listFlag(args, "origin");
+
+      startCollector({
+        ...(port !== undefined && { port: Number(port) }),
+        ...(host !== undefined && { host }),
+        ...(origins !== undefined && { origins }),
+        ...(socket !== undefined && { socket }),
+      }).then(
+        (collector) =>
+          console.error(
+            `Collecting entries on ${collector.url}, press Ctrl+C to stop`
+          ),
+        (error: Error) => {
+          console.error(`inline-debugger serve: ${error.message}`);
+          process.exitCode = 1;
+        }
+      );
+      return 0;
+    },
+  },
+
+  merge: {
+    usage: "merge [outputFile] [--out file] [--clean]",
+    description:
+      "Combine per-process shards of an output file into one ordered file",
+    run(args) {
+      const outputFile = args.positionals[0] ?? DEFAULT_OUTPUT_FILE;
+      const out = stringFlag(args, "out");
+      const result = writeMergedShards(outputFile, {
+        ...(out !== undefined && { out }),
+        clean: args.flags["clean"] === true,
+      });
+
+      if (!result.shards.length) {
+        console.error(`No shards found for ${outputFile}`);
+        return 1;
+      }
+
+      console.log(
+        `Merged ${result.entries} entries from ${
+          result.shards.length
+        } shards into ${path.relative(process.cwd(), result.out)}`
+      );
+      return 0;
+    },
+  },
+};
+
+const BOOLEAN_FLAGS = ["all", "clean", "color", "help", "json", "tree"];
+
+/**
+ * Print usage for all commands
+ */
+function printHelp(): void {
+  console.log("Usage: inline-debugger <command> [options]\n");
+  console.log("Commands:");
+  for (const command of Object.values(commands)) {
+    console.log(`  ${command.usage}`);
+    console.log(`      ${command.description}`);
+  }
+}
+
+/**
+ * Run the CLI and return its exit code
+ */
+export function main(argv: string[] = process.argv.slice(2)): number {
+  const [name, ...rest] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    printHelp();
+    return name && name !== "--help" && name !== "help" ? 1 : 0;
+  }
+
+  const args = parseArgs(rest, BOOLEAN_FLAGS);
+  if (args.flags["help"]) {
+    console.log(`Usage: inline-debugger ${command.usage}`);
+    return 0;
+  }
+
+  try {
+    return command.run(args);
+  } catch (error) {
+    console.error(`inline-debugger ${name}: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main();
+}
@@ -0,0 +1,494 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import * as net from "net";
+import * as path from "path";
+import { valueKey } from "./core";
+import { EntryEmitter } from "./events";
+import { serveEntries, Stop } from "./live";
+import { readRcFile } from "./rc";
+import { compileRedaction, Redactor } from "./redact";
+import { preview, redactTree } from "./serializer";
+import { DebugStorage } from "./storage";
+import { CollectorBatch, DebugData, StorageOptions } from "./types";
+
+/**
+ * Port the collector listens on and the browser runtime sends to by default
+ */
+export const DEFAULT_COLLECTOR_PORT = 7357;
+
+// Appended to the client key to prove the server understands WebSockets
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Largest POST body or WebSocket message the collector accepts, in bytes
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 10 * 1024 * 1024;
+
+// Names of files batches can be written to: the default output file, its
+// variants such as `.debug.data.checkout.json`, and `*.debug.json` files
+const OUTPUT_FILE_PATTERN = /(^|\.)debug(\.data)?(\.[\w-]+)?\.json$/;
+
+// Host names of the developer's own machine
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+// Addresses that listen on every interface
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+// WebSocket close code for messages over the size limit
+const MESSAGE_TOO_BIG = 1009;
+
+export interface CollectorOptions {
+  port?: number;
+  host?: string;
+  // Directory output files of batches are resolved against, they cannot be
+  // written outside of it
+  cwd?: string;
+  storage?: StorageOptions;
+  // Local socket streaming received entries to `inline-debugger tail --socket`
+  socket?: string;
+  // Origins of pages allowed to send entries besides those served from the
+  // developer's machine, e.g. `http://192.168.1.5:3000`
+  origins?: string[];
+  // Largest POST body or WebSocket message accepted, in bytes
+  maxMessageSize?: number;
+}
+
+export interface Collector {
+  url: string;
+  port: number;
+  // Stop listening and write what is still buffered
+  close: () => Promise<void>;
+}
+
+/**
+ * One frame of a WebSocket message
+ */
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  // Bytes the frame took in the stream
+  length: number;
+}
+
+/**
+ * Decode the frame at the start of `buffer`, or nothing until it is complete
+ * Frames larger than `maxSize` throw as soon as their header arrived
+ */
+function decodeFrame(buffer: Buffer, maxSize: number): Frame | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  const first = buffer[0] as number;
+  const second = buffer[1] as number;
+  let size = second & 0x7f;
+  let offset = 2;
+  if (size === 126) {
+    if (buffer.length < 4) return undefined;
+    size = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (size === 127) {
+    if (buffer.length < 10) return undefined;
+    size = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (size > maxSize) {
+    throw new Error(`Message larger than ${maxSize} bytes.`);
+  }
+  // Frames sent by clients are always masked
+  const mask = second & 0x80 ? buffer.subarray(offset, offset + 4) : undefined;
+  if (mask) {
+    offset += 4;
+  }
+  if (buffer.length < offset + size) {
+    return undefined;
+  }
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + size));
+  if (mask) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] = (payload[i] as number) ^ (mask[i % 4] as number);
+    }
+  }
+  return {
+    fin: (first & 0x80) !== 0,
+    opcode: first & 0x0f,
+    payload,
+    length: offset + size,
+  };
+}
+
+/**
+ * Encode a control frame sent by the server, which is never masked
+ */
+function encodeControlFrame(opcode: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload]);
+}
+
+/**
+ * Call `onMessage` with every text message of an upgraded connection,
+ * answering pings and closing frames
+ * Connections sending messages larger than `maxSize` are closed
+ */
+function readMessages(
+  socket: net.Socket,
+  maxSize: number,
+  onMessage: (message: string) => void
+): void {
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentsSize = 0;
+
+  const tooBig = () => {
+    const code = Buffer.alloc(2);
+    code.writeUInt16BE(MESSAGE_TOO_BIG);
+    // Not waiting for the client to answer, it may keep sending the message
+    socket.end(encodeControlFrame(0x8, code), () => socket.destroy());
+    socket.removeAllListeners("data");
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let frame: Frame | undefined;
+    while (true) {
+      try {
+        frame = decodeFrame(buffer, maxSize);
+      } catch {
+        return tooBig();
+      }
+      if (!frame) {
+        return;
+      }
+      buffer = buffer.subarray(frame.length);
+      switch (frame.opcode) {
+        case 0x0:
+        case 0x1:
+          fragmentsSize += frame.payload.length;
+          if (fragmentsSize > maxSize) {
+            return tooBig();
+          }
+          fragments.push(frame.payload);
+          if (frame.fin) {
+            onMessage(Buffer.concat(fragments).toString("utf8"));
+            fragments = [];
+            fragmentsSize = 0;
+          }
+          break;
+        case 0x8:
+          socket.end(encodeControlFrame(0x8, Buffer.alloc(0)));
+          return;
+        case 0x9:
+          socket.write(encodeControlFrame(0xa, frame.payload));
+          break;
+        default:
+        // Binary messages and pongs are ignored
+      }
+    }
+  });
+}
+
+/**
+ * Check a batch sent by a client
+ */
+function parseBatch(body: string): CollectorBatch {
+  const batch = JSON.parse(body) as Partial<CollectorBatch>;
+  if (typeof batch?.outputFile !== "string" || !batch.outputFile) {
+    throw new Error(`Batch is missing its "outputFile".`);
+  }
+  if (!Array.isArray(batch.entries)) {
+    throw new Error(`Batch is missing its "entries".`);
+  }
+  return batch as CollectorBatch;
+}
+
+/**
+ * Apply the redaction rules of the collector's rc file to an entry sent by
+ * the browser runtime, which cannot read it, and preview the redacted values
+ * again
+ */
+function redactEntry(entry: DebugData, redactor: Redactor): DebugData {
+  const redacted = { ...entry };
+  const text = (called: unknown) =>
+    typeof called === "string" ? redactor.text(called) : called;
+
+  if (entry.value) {
+    redacted.value = redactTree(entry.value, redactor, valueKey(entry));
+  }
+  if (entry.receiver) {
+    redacted.receiver = redactTree(entry.receiver, redactor);
+  }
+  if (entry.args) {
+    redacted.args = redactTree(entry.args, redactor);
+  }
+  if (entry.values) {
+    redacted.values = entry.values.map((value) => redactTree(value, redactor));
+  }
+
+  if (redacted.values) {
+    redacted.called = redacted.values.map(preview);
+  } else if (redacted.type === "error" && redacted.value?.type === "error") {
+    redacted.called = [redacted.value.message, preview(redacted.value)];
+  } else if (redacted.value && typeof entry.called === "string") {
+    redacted.called = preview(redacted.value);
+  } else {
+    // Compact entries only have previews
+    redacted.called = Array.isArray(entry.called)
+      ? entry.called.map(text)
+      : text(entry.called);
+  }
+  return redacted;
+}
+
+/**
+ * Resolve the output file of a batch, refusing paths outside of `cwd` and
+ * files that are not named like debug data, so a batch cannot replace other
+ * files of the project
+ */
+function resolveOutputFile(cwd: string, outputFile: string): string {
+  const filePath = path.resolve(cwd, outputFile);
+  const relative = path.relative(cwd, filePath);
+  if (
+    !relative ||
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`Output file "${outputFile}" is outside of ${cwd}.`);
+  }
+  if (!OUTPUT_FILE_PATTERN.test(path.basename(filePath))) {
+    throw new Error(
+      `Output file "${outputFile}" is not named like debug data, e.g. ".debug.data.json" or "app.debug.json".`
+    );
+  }
+  return filePath;
+}
+
+/**
+ * Host name of a `Host` header or URL host, without the port
+ */
+function hostName(host: string): string {
+  return host.replace(/:\d*$/, "").toLowerCase();
+}
+
+/**
+ * Check where a request comes from
+ * Browsers send `Origin` with every POST and WebSocket request, only pages
+ * served from the developer's machine or listed in `origins` are accepted;
+ * requests without one come from other programs. `Host` must name the
+ * collector, so pages of other sites cannot reach it by rebinding their
+ * domain to a loopback address
+ */
+function checkRequest(
+  request: http.IncomingMessage,
+  host: string,
+  origins: string[]
+): string | undefined {
+  const requestHost = hostName(request.headers.host ?? "");
+  if (
+    !WILDCARD_HOSTS.includes(host) &&
+    !LOOPBACK_HOSTS.includes(requestHost) &&
+    requestHost !== hostName(host.includes(":") ? `[${host}]` : host)
+  ) {
+    return `Host "${request.headers.host}" is not allowed.`;
+  }
+
+  const { origin } = request.headers;
+  if (origin === undefined || origins.includes(origin)) {
+    return undefined;
+  }
+  let originHost: string | undefined;
+  try {
+    originHost = hostName(new URL(origin).host);
+  } catch {
+    // `null` and other opaque origins
+  }
+  if (originHost === undefined || !LOOPBACK_HOSTS.includes(originHost)) {
+    return `Origin "${origin}" is not allowed, start the collector with --origin ${origin} to accept it.`;
+  }
+  return undefined;
+}
+
+/**
+ * Receive entries sent by the browser runtime, as POST requests to
+ * `/entries` or messages of a WebSocket opened there, and append them to
+ * their output files like the Node runtime does
+ */
+export function startCollector(
+  options: CollectorOptions = {}
+): Promise<Collector> {
+  const {
+    port = DEFAULT_COLLECTOR_PORT,
+    host = "127.0.0.1",
+    cwd = process.cwd(),
+    storage: storageOptions = {},
+    origins = [],
+    maxMessageSize = DEFAULT_MAX_MESSAGE_SIZE,
+  } = options;
+  const storages: Map<string, DebugStorage> = new Map();
+  const events = new EntryEmitter();
+  const connections: Set<net.Socket> = new Set();
+  let stopSocket: Stop | undefined;
+  // Read once, an invalid rc file stops the collector from starting rather
+  // than letting secrets through
+  let redactor: Redactor | undefined;
+  try {
+    const { redact } = readRcFile(cwd);
+    redactor = redact ? compileRedaction(redact) : undefined;
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const receive = (body: string): void => {
+    const batch = parseBatch(body);
+    const filePath = resolveOutputFile(cwd, batch.outputFile);
+    let storage = storages.get(filePath);
+    if (!storage) {
+      storage = new DebugStorage(filePath, storageOptions);
+      storages.set(filePath, storage);
+    }
+    for (const received of batch.entries) {
+      const entry = redactor ? redactEntry(received, redactor) : received;
+      storage.append(entry);
+      events.emit(entry);
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    const { origin } = request.headers;
+    const send = (status: number, body = "") => {
+      response.writeHead(status, {
+        ...(origin !== undefined && {
+          "Access-Control-Allow-Origin": origin,
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": "Content-Type",
+        }),
+        Vary: "Origin",
+        "Content-Type": "text/plain; charset=utf-8",
+      });
+      response.end(body);
+    };
+
+    const refused = checkRequest(request, host, origins);
+    if (refused) {
+      response.writeHead(403, { "Content-Type": "text/plain; charset=utf-8" });
+      response.end(`${refused}\n`);
+      return;
+    }
+    if (request.method === "OPTIONS") {
+      return send(204);
+    }
+    if (request.method === "GET" && request.url === "/") {
+      return send(200, "inline-debugger collector\n");
+    }
+    if (request.method !== "POST" || request.url !== "/entries") {
+      return send(404, `Unknown route ${request.method} ${request.url}\n`);
+    }
+
+    // Bodies sent with `sendBeacon` arrive as text/plain, the type is ignored
+    const tooLarge = `Body larger than ${maxMessageSize} bytes.\n`;
+    if (Number(request.headers["content-length"]) > maxMessageSize) {
+      response.setHeader("Connection", "close");
+      return send(413, tooLarge);
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxMessageSize) {
+        if (!response.headersSent) {
+          response.setHeader("Connection", "close");
+          send(413, tooLarge);
+        }
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => {
+      if (size > maxMessageSize) {
+        return;
+      }
+      try {
+        receive(Buffer.concat(chunks).toString("utf8"));
+      } catch (error) {
+        return send(400, `${(error as Error).message}\n`);
+      }
+      send(204);
+    });
+  });
+
+  server.on("connection", (socket) => {
+    connections.add(socket);
+    socket.on("close", () => connections.delete(socket));
+  });
+
+  server.on("upgrade", (request: http.IncomingMessage, socket: net.Socket) => {
+    const refused = checkRequest(request, host, origins);
+    if (refused) {
+      socket.end(`HTTP/1.1 403 Forbidden\r\n\r\n${refused}\n`);
+      return;
+    }
+    const key = request.headers["sec-websocket-key"];
+    if (
+      request.url !== "/entries" ||
+      request.headers.upgrade?.toLowerCase() !== "websocket" ||
+      typeof key !== "string"
+    ) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+
+    const accept = crypto
+      .createHash("sha1")
+      .update(key + WEBSOCKET_GUID)
+      .digest("base64");
+    socket.write(
+      [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "",
+        "",
+      ].join("\r\n")
+    );
+    socket.on("error", () => socket.destroy());
+    readMessages(socket, maxMessageSize, (message) => {
+      try {
+        receive(message);
+      } catch (error) {
+        console.error(`inline-debugger: ${(error as Error).message}`);
+      }
+    });
+  });
+
+  const close = (): Promise<void> =>
+    new Promise((resolve) => {
+      stopSocket?.();
+      for (const storage of storages.values()) {
+        storage.flush();
+      }
+      server.close(() => resolve());
+      for (const connection of connections) {
+        connection.destroy();
+      }
+    });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      if (options.socket) {
+        stopSocket = serveEntries(options.socket, (listener) =>
+          events.on(listener)
+        );
+      }
+      const address = server.address() as net.AddressInfo;
+      const hostname = host.includes(":") ? `[${host}]` : host;
+      resolve({
+        url: `http://${hostname}:${address.port}`,
+        port: address.port,
+        close,
+      });
+    });
+  });
+}
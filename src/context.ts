@@ -0,0 +1,175 @@
+/**
+ * Named span opened by `trace`
+ */
+export interface Span {
+  id: number;
+  parentId?: number;
+  name: string;
+}
+
+/**
+ * Recording session opened by `session`
+ */
+export interface Session {
+  name: string;
+  outputFile?: string;
+}
+
+/**
+ * Async context opened by the first entry of a callback, timer or `await`
+ * continuation, below the context of the code that scheduled it
+ */
+export interface AsyncContext {
+  id: number;
+  parentId?: number;
+  // Execution the context was opened in, from `async_hooks`
+  executionId: number;
+}
+
+/**
+ * What is running in the current async context: the innermost span and
+ * session, when calls are tracked, the innermost marked call, and the async
+ * context entries are tagged with
+ */
+export interface Context {
+  span?: Span;
+  session?: Session;
+  callId?: number;
+  async?: AsyncContext;
+}
+
+/**
+ * Holds the current context while a callback runs, the part of
+ * `AsyncLocalStorage` the tracker needs
+ */
+export interface ContextStore {
+  getStore(): Context | undefined;
+  run<T>(context: Context, fn: () => T): T;
+  // Replaces the context for the rest of the current execution
+  enterWith?(context: Context): void;
+}
+
+/**
+ * Context store for environments without `AsyncLocalStorage`, such as
+ * browsers
+ * The context only lasts while the callback runs synchronously, code after
+ * an `await` or in a timer runs outside of it
+ */
+export class SyncContextStore implements ContextStore {
+  private current: Context | undefined;
+
+  public getStore(): Context | undefined {
+    return this.current;
+  }
+
+  public run<T>(context: Context, fn: () => T): T {
+    const previous = this.current;
+    this.current = context;
+    try {
+      return fn();
+    } finally {
+      this.current = previous;
+    }
+  }
+}
+
+/**
+ * Follows spans, sessions and marked calls, across `await`, timers and
+ * callbacks when the store is an `AsyncLocalStorage`, so entries of
+ * concurrent requests can be told apart
+ *
+ * `executionId` returns the id of the running execution, such as
+ * `executionAsyncId` of `async_hooks`, and enables async contexts
+ */
+export class ContextTracker {
+  private spanCount: number = 0;
+  private asyncCount: number = 0;
+
+  constructor(
+    private storage: ContextStore = new SyncContextStore(),
+    private executionId?: () => number
+  ) {}
+
+  /**
+   * Innermost span of the current async context
+   */
+  public span(): Span | undefined {
+    return this.storage.getStore()?.span;
+  }
+
+  /**
+   * Innermost marked call of the current async context
+   */
+  public callId(): number | undefined {
+    return this.storage.getStore()?.callId;
+  }
+
+  /**
+   * Innermost session of the current async context
+   */
+  public session(): Session | undefined {
+    return this.storage.getStore()?.session;
+  }
+
+  /**
+   * Async context of the running code, opened by its first entry
+   * Every callback, timer and `await` continuation that records gets its
+   * own, below the nearest context recorded in before it was scheduled
+   */
+  public asyncContext(): AsyncContext | undefined {
+    if (!this.executionId || !this.storage.enterWith) {
+      return undefined;
+    }
+    const store = this.storage.getStore();
+    const executionId = this.executionId();
+    const parent = store?.async;
+    if (parent?.executionId === executionId) {
+      return parent;
+    }
+
+    const context: AsyncContext = {
+      id: ++this.asyncCount,
+      ...(parent && { parentId: parent.id }),
+      executionId,
+    };
+    this.storage.enterWith({ ...store, async: context });
+    return context;
+  }
+
+  /**
+   * Number spans and async contexts from the start again
+   */
+  public reset(): void {
+    this.spanCount = 0;
+    this.asyncCount = 0;
+  }
+
+  /**
+   * Open a span below the current one and run `fn` inside it
+   */
+  public openSpan<T>(name: string, fn: (span: Span) => T): T {
+    const parent = this.span();
+    const span: Span = {
+      id: ++this.spanCount,
+      ...(parent && { parentId: parent.id }),
+      name,
+    };
+    return this.storage.run({ ...this.storage.getStore(), span }, () =>
+      fn(span)
+    );
+  }
+
+  /**
+   * Run `fn` inside a session
+   */
+  public runSession<T>(session: Session, fn: () => T): T {
+    return this.storage.run({ ...this.storage.getStore(), session }, fn);
+  }
+
+  /**
+   * Run the body of a marked call as the current call
+   */
+  public runCall<T>(callId: number, fn: () => T): T {
+    return this.storage.run({ ...this.storage.getStore(), callId }, fn);
+  }
+}
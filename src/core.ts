@@ -0,0 +1,916 @@
+import { ContextTracker, Session } from "./context";
+import { EntryEmitter, EntryListener } from "./events";
+import { DEFAULT_STACK_DEPTH, readStack } from "./frames";
+import { compileRedaction } from "./redact";
+import { preview, serialize } from "./serializer";
+import { Sampler } from "./sampling";
+import { snapshotEntries } from "./snapshot";
+import { EntryStore } from "./store";
+import { summarizeTimings } from "./timing";
+import {
+  DebugData,
+  EntryQuery,
+  GlobalDebugger,
+  MarkerDetail,
+  RecordMode,
+  RuntimeOptions,
+  SerializedValue,
+  SerializerOptions,
+  SessionOptions,
+  SnapshotEntry,
+  SnapshotOptions,
+  StackFrame,
+  TimingStats,
+} from "./types";
+
+/**
+ * High-resolution wall clock time in ms, comparable across processes
+ */
+export function now(): number {
+  return typeof performance !== "undefined"
+    ? performance.timeOrigin + performance.now()
+    : Date.now();
+}
+
+/**
+ * Serializer options with the `redact` runtime option applied
+ * Rules are compiled right away, so invalid patterns throw here rather than
+ * on every serialized value
+ */
+function withRedaction(
+  serializerOptions: SerializerOptions,
+  redact: RuntimeOptions["redact"]
+): SerializerOptions {
+  if (redact === undefined) {
+    return serializerOptions;
+  }
+  if (redact) {
+    compileRedaction(redact);
+  }
+  return { ...serializerOptions, redact };
+}
+
+/**
+ * Name the value of an entry is known under, for redaction rules: the last
+ * property its projection reads, or the watched variable
+ */
+export function valueKey(dataValue: DebugData): string | undefined {
+  return dataValue.projection
+    ? /([A-Za-z_$][\w$]*)\W*$/.exec(dataValue.projection)?.[1]
+    : dataValue.variable;
+}
+
+/**
+ * Frames to capture for the `stack` runtime option
+ */
+function getStackDepth(
+  stack: boolean | number | undefined
+): number | undefined {
+  if (typeof stack === "number") {
+    return stack;
+  }
+  return stack ? DEFAULT_STACK_DEPTH : undefined;
+}
+
+/**
+ * Name of the class `this` belongs to, for static methods the class itself
+ */
+function getClassName(self: unknown): string | undefined {
+  if (typeof self === "function") {
+    return self.name || undefined;
+  }
+  if (self && typeof self === "object" && self !== globalThis) {
+    return Object.getPrototypeOf(self)?.constructor?.name || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Recording logic shared by the Node and browser runtimes: evaluating
+ * watches, calls, spans and logs into entries, sampling them, keeping them in
+ * memory for queries and handing them to subscribers
+ * Runtimes decide where entries are stored and which process details they
+ * carry
+ */
+export abstract class InlineDebuggerCore {
+  protected outputFile: string;
+  protected serializerOptions: SerializerOptions;
+  protected sampler: Sampler = new Sampler();
+  protected memory: EntryStore;
+  protected abstract contexts: ContextTracker;
+  private seq: number = 0;
+  private callCount: number = 0;
+  private calls: number[] = [];
+  private timing: boolean;
+  private asyncContext: boolean;
+  private stackDepth: number | undefined;
+  private events: EntryEmitter = new EntryEmitter();
+  private annotators: Set<(entry: DebugData) => void> = new Set();
+  private record: RecordMode;
+  private paused: boolean;
+  private started: Session[] = [];
+  private drainsOnExit: boolean = false;
+  private isInitialized: boolean = false;
+
+  constructor(options: RuntimeOptions = {}) {
+    this.outputFile = options.outputFile || ".debug.data.json";
+    this.serializerOptions = withRedaction(
+      options.serializer || {},
+      options.redact
+    );
+    this.sampler.configure(options.sampling);
+    this.timing = options.timing ?? false;
+    this.asyncContext = options.asyncContext ?? false;
+    this.stackDepth = getStackDepth(options.stack);
+    this.memory = new EntryStore(options.memoryLimit);
+    this.record = options.record ?? "always";
+    this.paused = options.paused ?? false;
+  }
+
+  /**
+   * Initialize the runtime
+   */
+  public initialize(options: RuntimeOptions = {}): { outputFile: string } {
+    if (options.outputFile) {
+      this.outputFile = options.outputFile;
+    }
+    if (options.serializer) {
+      this.serializerOptions = {
+        ...this.serializerOptions,
+        ...options.serializer,
+      };
+    }
+    this.serializerOptions = withRedaction(
+      this.serializerOptions,
+      options.redact
+    );
+    if (options.sampling) {
+      this.sampler.configure(options.sampling);
+    }
+    if (options.timing !== undefined) {
+      this.timing = options.timing;
+    }
+    if (options.asyncContext !== undefined) {
+      this.asyncContext = options.asyncContext;
+    }
+    if (options.stack !== undefined) {
+      this.stackDepth = getStackDepth(options.stack);
+    }
+    if (options.memoryLimit !== undefined) {
+      this.memory.configure(options.memoryLimit);
+    }
+    if (options.record !== undefined) {
+      this.record = options.record;
+    }
+    if (options.paused !== undefined) {
+      this.paused = options.paused;
+    }
+
+    this.isInitialized = true;
+
+    return { outputFile: this.outputFile };
+  }
+
+  /**
+   * Ensure runtime is initialized
+   */
+  protected ensureInitialized(): void {
+    if (!this.isInitialized) {
+      this.initialize();
+    }
+  }
+
+  /**
+   * Store an entry in its output file
+   */
+  protected abstract store(outputFile: string, entry: DebugData): void;
+
+  /**
+   * Drop what was stored in an output file and not read back from memory,
+   * e.g. the file itself
+   */
+  protected abstract discard(outputFile: string): void;
+
+  /**
+   * Run `hook` before stored entries are written for the last time, when the
+   * process exits or the page is left
+   */
+  protected abstract onExit(hook: () => void): void;
+
+  /**
+   * Print the entries of the current output file to the console, for
+   * `inlineDebugger.printData`
+   */
+  protected abstract printData(): void;
+
+  /**
+   * Capture the callers of the code that called `below`
+   */
+  protected captureStack(depth: number, below: Function): StackFrame[] {
+    return readStack(depth, below);
+  }
+
+  /**
+   * Add the time and order to an entry about to be saved
+   */
+  protected stamp(dataValue: DebugData): void {
+    dataValue.timestamp = now();
+    dataValue.seq = this.seq++;
+  }
+
+  /**
+   * Serialize a value into a typed tree
+   * `full` detail, from `//?+` markers, lifts the depth limit; `key` is the
+   * name redaction rules see for the value itself
+   */
+  protected serialize(
+    value: any,
+    detail?: MarkerDetail,
+    key?: string
+  ): SerializedValue {
+    return serialize(
+      value,
+      detail === "full"
+        ? { ...this.serializerOptions, maxDepth: Infinity }
+        : this.serializerOptions,
+      key
+    );
+  }
+
+  /**
+   * Serialize a value and render its preview
+   */
+  protected stringify(value: any): string {
+    return preview(this.serialize(value));
+  }
+
+  /**
+   * Evaluate the condition of a `//? if` marker against the watched value
+   * Returns nothing when the entry should be dropped; a condition that throws
+   * turns the entry into a `condition` entry with the error as its value
+   */
+  private checkCondition(
+    dataValue: DebugData,
+    value: any
+  ): { value: any } | undefined {
+    const { when } = dataValue;
+    delete dataValue.when;
+    if (!when) {
+      return { value };
+    }
+
+    try {
+      return when(value) ? { value } : undefined;
+    } catch (error) {
+      dataValue.type = "condition";
+      dataValue.prefix = "Condition failed: ";
+      delete dataValue.project;
+      return { value: error };
+    }
+  }
+
+  /**
+   * Store the serialized value and its preview on an entry
+   */
+  private capture(dataValue: DebugData, value: any): void {
+    if (dataValue.project) {
+      try {
+        value = dataValue.project(value);
+      } catch (error) {
+        dataValue.prefix = `${dataValue.prefix ?? ""}Projection failed: `;
+        value = error;
+      }
+    }
+
+    const tree = this.serialize(value, dataValue.detail, valueKey(dataValue));
+    dataValue.called = preview(tree);
+    // `compact` detail, from `//?.` markers, keeps only the preview
+    if (dataValue.detail !== "compact") {
+      dataValue.value = tree;
+    }
+  }
+
+  /**
+   * Handle error in monitoring
+   */
+  private onError(error: Error, dataValue: DebugData): void {
+    dataValue.type = "error";
+    dataValue.value = this.serialize(error);
+    // The message as serialized, with secrets hidden
+    const message =
+      dataValue.value.type === "error" ? dataValue.value.message : undefined;
+    dataValue.called = [message, preview(dataValue.value)];
+  }
+
+  /**
+   * Session entries saved now belong to, or `false` when nothing is recorded
+   * because recording is paused or only sessions are recorded
+   */
+  private recordingSession(): Session | undefined | false {
+    if (this.paused) {
+      return false;
+    }
+    const session =
+      this.contexts.session() ?? this.started[this.started.length - 1];
+    return !session && this.record === "sessions" ? false : session;
+  }
+
+  /**
+   * Save the hit of a value whose condition holds, serializing the value only
+   * when the hit is recorded
+   */
+  private saveValue(
+    hide: boolean,
+    dataValue: DebugData,
+    value: any,
+    complete?: () => void
+  ): void {
+    if (hide || this.recordingSession() === false) {
+      return;
+    }
+    const checked = this.checkCondition(dataValue, value);
+    if (!checked) {
+      return;
+    }
+    this.save(hide, dataValue, () => {
+      this.capture(dataValue, checked.value);
+      complete?.();
+    });
+  }
+
+  /**
+   * Queue data for writing
+   * Whether the entry is recorded, in which session and by its sampling
+   * policy is decided before `complete` serializes what it carries, so hits
+   * that are dropped cost little
+   * Entries carrying an `outputFile` (forwarded by the plugin) go to that file,
+   * entries of a session with its own output file go to that one
+   */
+  private save(
+    hide: boolean,
+    dataValue: DebugData,
+    complete?: () => void
+  ): void {
+    const session = hide ? false : this.recordingSession();
+    if (session === false) {
+      return;
+    }
+
+    let outputFile = this.outputFile;
+    if (dataValue.outputFile) {
+      outputFile = dataValue.outputFile;
+      delete dataValue.outputFile;
+    }
+    if (session) {
+      dataValue.session = session.name;
+      outputFile = session.outputFile ?? outputFile;
+    }
+
+    const decision = this.sampler.sample(dataValue, outputFile);
+    if (decision !== "write" && !this.drainsOnExit) {
+      // Held back hits and summaries of dropped ones are written on exit
+      this.drainsOnExit = true;
+      this.onExit(() => this.drainSampler());
+    }
+    if (decision === "drop") {
+      return;
+    }
+
+    complete?.();
+    delete dataValue.project;
+    delete dataValue.when;
+    delete dataValue.time;
+    delete dataValue.captureStack;
+
+    this.stamp(dataValue);
+    for (const annotator of this.annotators) {
+      try {
+        annotator(dataValue);
+      } catch {
+        // Must not break the code being debugged
+      }
+    }
+    const parentCallId = this.currentCallId();
+    if (dataValue.parentCallId === undefined && parentCallId !== undefined) {
+      dataValue.parentCallId = parentCallId;
+    }
+    const span = this.contexts.span();
+    if (dataValue.contextId === undefined && span) {
+      dataValue.contextId = span.id;
+      if (span.parentId !== undefined) {
+        dataValue.parentContextId = span.parentId;
+      }
+    }
+    const context = this.asyncContext
+      ? this.contexts.asyncContext()
+      : undefined;
+    if (context) {
+      dataValue.asyncId = context.id;
+      if (context.parentId !== undefined) {
+        dataValue.parentAsyncId = context.parentId;
+      }
+    }
+
+    // Held entries are written when the sampler is drained
+    if (decision === "write") {
+      this.write(outputFile, dataValue);
+    }
+  }
+
+  /**
+   * Marked call the current code runs in, followed across `await` when
+   * `asyncContext` is on, otherwise only while it runs synchronously
+   */
+  private currentCallId(): number | undefined {
+    return this.asyncContext
+      ? this.contexts.callId()
+      : this.calls[this.calls.length - 1];
+  }
+
+  /**
+   * Keep an entry in memory, store it and hand it to subscribers
+   */
+  private write(outputFile: string, entry: DebugData): void {
+    this.memory.add(outputFile, entry);
+    this.store(outputFile, entry);
+    this.events.emit(entry);
+  }
+
+  /**
+   * Write hits held back by sampling policies and summaries of dropped hits
+   */
+  protected drainSampler(): void {
+    for (const [outputFile, entry] of this.sampler.drain()) {
+      this.write(outputFile, entry);
+    }
+  }
+
+  /**
+   * Entries of the current output file kept in memory
+   */
+  public getData(): DebugData[] {
+    return this.query();
+  }
+
+  /**
+   * Entries kept in memory that match every field set in `query`, of the
+   * current output file unless it names another one, in the order they were
+   * stored
+   */
+  public query(query: EntryQuery = {}): DebugData[] {
+    this.drainSampler();
+    return this.memory.query(query.outputFile ?? this.outputFile, query);
+  }
+
+  /**
+   * Entries matching `query`, normalized for snapshots by `snapshotEntries`
+   */
+  public snapshot(
+    query: EntryQuery = {},
+    options: SnapshotOptions = {}
+  ): SnapshotEntry[] {
+    return snapshotEntries(this.query(query), options);
+  }
+
+  /**
+   * Forget the entries of the current output file, in memory and where they
+   * were stored, and the hits counted by sampling policies
+   */
+  public clear(): void {
+    this.memory.clear(this.outputFile);
+    this.discard(this.outputFile);
+    this.sampler.clear();
+  }
+
+  /**
+   * Forget the entries of every output file, like `clear`, and number
+   * entries, calls and spans from the start again
+   * Calls and spans still running keep their ids, which new ones may reuse
+   */
+  public reset(): void {
+    for (const outputFile of new Set([
+      this.outputFile,
+      ...this.memory.outputFiles(),
+    ])) {
+      this.discard(outputFile);
+    }
+    this.memory.clear();
+    this.sampler.clear();
+    this.contexts.reset();
+    this.seq = 0;
+    this.callCount = 0;
+  }
+
+  /**
+   * Run `fn` in a named recording session
+   * Entries recorded until it returns or its promise settles, including those
+   * of callbacks it schedules, carry the session's name as `session`, and go
+   * to `options.outputFile` when it is set
+   */
+  public session<T>(
+    name: string,
+    fn: () => T,
+    options: SessionOptions = {}
+  ): T {
+    return this.contexts.runSession({ name, ...options }, fn);
+  }
+
+  /**
+   * Start a named recording session that lasts until `stop` and takes every
+   * entry recorded outside of sessions run with `session`
+   */
+  public start(name: string, options: SessionOptions = {}): void {
+    this.started.push({ name, ...options });
+  }
+
+  /**
+   * Stop the last session started with `start`, or the last one named `name`
+   */
+  public stop(name?: string): void {
+    const index =
+      name === undefined
+        ? this.started.length - 1
+        : this.started.map((session) => session.name).lastIndexOf(name);
+    if (index >= 0) {
+      this.started.splice(index, 1);
+    }
+  }
+
+  /**
+   * Record nothing, in sessions or not, until `resume` is called
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  /**
+   * Position of the code that called `below`
+   */
+  private getCallerPosition(
+    below: Function
+  ): Pick<DebugData, "filePath" | "line" | "column"> {
+    const [caller] = this.captureStack(1, below);
+    return caller
+      ? { filePath: caller.filePath, line: caller.line, column: caller.column }
+      : { filePath: "unknown" };
+  }
+
+  /**
+   * Run `annotator` on every entry before it is sampled and stored, e.g. to
+   * tag it with the test that is running
+   * Returns a function that removes it
+   */
+  public annotate(annotator: (entry: DebugData) => void): () => void {
+    this.annotators.add(annotator);
+    return () => {
+      this.annotators.delete(annotator);
+    };
+  }
+
+  /**
+   * Call `listener` with every entry once it is written, with its final
+   * serialized value
+   * Returns a function that unsubscribes it
+   */
+  public on(event: "entry", listener: EntryListener): () => void {
+    if (event !== "entry") {
+      throw new Error(`Unknown event "${event}", only "entry" is emitted.`);
+    }
+    return this.events.on(listener);
+  }
+
+  /**
+   * Stop calling a listener added with `on`
+   */
+  public off(event: "entry", listener: EntryListener): void {
+    if (event === "entry") {
+      this.events.off(listener);
+    }
+  }
+
+  /**
+   * Iterate over entries as they are written, e.g.
+   * `for await (const entry of runtime.entries())`
+   */
+  public entries(): AsyncIterableIterator<DebugData> {
+    return this.events.iterate();
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<DebugData> {
+    return this.entries();
+  }
+
+  /**
+   * Main monitoring function
+   */
+  public inlineDebuggerWatch(data: DebugData): any {
+    this.ensureInitialized(); // Auto-initialize if needed
+
+    const { time, captureStack: stack, ...rest } = data;
+    const dataValue: DebugData = {
+      ...rest,
+      called: "Failed Promise. Please use a .catch to display it",
+    };
+    // `//?stack` without a depth uses the configured one
+    const depth =
+      stack === true
+        ? this.stackDepth ?? DEFAULT_STACK_DEPTH
+        : stack ?? this.stackDepth;
+    const captureStack = () => {
+      if (depth && !dataValue.stack) {
+        dataValue.stack = this.captureStack(
+          depth,
+          InlineDebuggerCore.prototype.inlineDebuggerWatch
+        );
+      }
+    };
+
+    let called: any;
+
+    // Timed watches record when evaluation started and how long it took to
+    // return, throw or, for promises, settle
+    const start = time || this.timing ? now() : undefined;
+    const stopClock = () => {
+      if (start !== undefined) {
+        dataValue.start = start;
+        dataValue.duration = now() - start;
+      }
+    };
+
+    // Watched method calls pass the object they are called on through here
+    let receiver: { value: unknown } | undefined;
+    const receive = (value: unknown) => {
+      receiver = { value };
+      return value;
+    };
+    // Runs only for hits that are recorded
+    const complete = () => {
+      captureStack();
+      if (receiver) {
+        dataValue.receiver = this.serialize(receiver.value);
+      }
+    };
+    const hide = data.hide || false;
+    const saveError = (error: Error) =>
+      this.save(hide, dataValue, () => {
+        this.onError(error, dataValue);
+        complete();
+      });
+
+    try {
+      called = data.called(receive);
+    } catch (error) {
+      stopClock();
+      saveError(error as Error);
+      throw error;
+    }
+
+    if (data.type === "error") {
+      saveError(called as Error);
+      throw called;
+    }
+
+    if (typeof called?.then === "function") {
+      // The callers are gone once the promise settles, before it is known
+      // whether sampling keeps the hit
+      if (!hide && this.recordingSession() !== false) {
+        captureStack();
+      }
+      // The caller gets the original promise and handles its rejection, this
+      // branch only records the outcome
+      called.then(
+        (r: any) => {
+          stopClock();
+          dataValue.prefix = "Resolved Promise: ";
+          this.saveValue(hide, dataValue, r, complete);
+        },
+        (err: any) => {
+          stopClock();
+          dataValue.prefix = "Rejected Promise: ";
+          this.saveValue(hide, dataValue, err, complete);
+        }
+      );
+    } else {
+      stopClock();
+      this.saveValue(hide, dataValue, called, complete);
+    }
+
+    return called;
+  }
+
+  /**
+   * Record one call of a marked function
+   * `called` runs the original body, the entry is saved once it returned,
+   * threw or, for promises, settled
+   */
+  public inlineDebuggerCall(data: DebugData): any {
+    this.ensureInitialized(); // Auto-initialize if needed
+
+    const { self, args, time, ...rest } = data;
+    const callId = ++this.callCount;
+    const hide = data.hide || false;
+    const dataValue: DebugData = { ...rest, callId };
+    // Arguments are serialized as they were passed, which sampling cannot
+    // know yet, unless nothing is recorded
+    if (!hide && this.recordingSession() !== false) {
+      dataValue.args = this.serialize(args);
+    }
+    const parentCallId = this.currentCallId();
+    if (parentCallId !== undefined) {
+      dataValue.parentCallId = parentCallId;
+    }
+
+    const start = now();
+    const finish = (value: any, prefix?: string): void => {
+      dataValue.duration = now() - start;
+      if (time || this.timing) {
+        dataValue.start = start;
+      }
+      if (prefix) {
+        dataValue.prefix = prefix;
+      }
+      this.saveValue(hide, dataValue, value, () => {
+        try {
+          const thisClass = getClassName(self?.());
+          if (thisClass) {
+            dataValue.thisClass = thisClass;
+          }
+        } catch {
+          // `this` is not initialized when a derived constructor threw early
+        }
+      });
+    };
+
+    let result: any;
+    this.calls.push(callId);
+    try {
+      result = this.asyncContext
+        ? this.contexts.runCall(callId, data.called)
+        : data.called();
+    } catch (error) {
+      this.calls.pop();
+      finish(error, "Threw: ");
+      throw error;
+    }
+    this.calls.pop();
+
+    if (typeof result?.then === "function") {
+      // The caller gets the original thenable, e.g. a query builder or a
+      // Promise subclass, and handles its rejection
+      result.then(
+        (value: any) => finish(value, "Resolved Promise: "),
+        (error: any) => finish(error, "Rejected Promise: ")
+      );
+      return result;
+    }
+
+    finish(result);
+    return result;
+  }
+
+  /**
+   * Run `fn` in a named span
+   * Entries recorded until it returns or its promise settles, including those
+   * of callbacks it schedules, carry the span's id as `contextId`; the span
+   * itself is saved as a `span` entry with its result once it finished
+   */
+  public trace<T>(name: string, fn: () => T): T {
+    this.ensureInitialized(); // Auto-initialize if needed
+
+    const position = this.getCallerPosition(InlineDebuggerCore.prototype.trace);
+    return this.contexts.openSpan(name, (span) => {
+      const start = now();
+      const finish = (value: any, prefix?: string): void => {
+        const dataValue: DebugData = {
+          type: "span",
+          variable: name,
+          called: undefined,
+          ...position,
+          start,
+          duration: now() - start,
+          contextId: span.id,
+          ...(span.parentId !== undefined && {
+            parentContextId: span.parentId,
+          }),
+          ...(prefix !== undefined && { prefix }),
+        };
+        this.save(false, dataValue, () => this.capture(dataValue, value));
+      };
+
+      let result: any;
+      try {
+        result = fn();
+      } catch (error) {
+        finish(error, "Threw: ");
+        throw error;
+      }
+
+      if (typeof result?.then === "function") {
+        // Like marked calls, the caller gets the original thenable
+        result.then(
+          (value: any) => finish(value, "Resolved Promise: "),
+          (error: any) => finish(error, "Rejected Promise: ")
+        );
+        return result;
+      }
+
+      finish(result);
+      return result;
+    });
+  }
+
+  /**
+   * Console log wrapper
+   */
+  public debugLog(logFn: (...args: any[]) => void, data: DebugData): void {
+    this.ensureInitialized(); // Auto-initialize if needed
+
+    logFn(...data.called);
+    if (this.recordingSession() === false) {
+      return;
+    }
+    // Conditions of logs see the arguments
+    const checked = this.checkCondition(data, data.called);
+    if (!checked) {
+      return;
+    }
+    // Add file path if not present
+    if (!data.filePath) {
+      data.filePath = "unknown";
+    }
+    if (data.type === "condition") {
+      this.save(false, data, () => this.capture(data, checked.value));
+      return;
+    }
+
+    this.save(false, data, () => {
+      const values = data.called.map((entry: any) =>
+        this.serialize(entry, data.detail)
+      );
+      data.called = values.map(preview);
+      if (data.detail !== "compact") {
+        data.values = values;
+      }
+    });
+  }
+
+  /**
+   * Make the functions transformed code calls and `inlineDebugger` available
+   * as globals
+   */
+  public setupGlobals(): void {
+    this.ensureInitialized(); // Auto-initialize if needed
+
+    const target = globalThis as any;
+    target.inlineDebuggerWatch = this.inlineDebuggerWatch.bind(this);
+    target.inlineDebuggerCall = this.inlineDebuggerCall.bind(this);
+    target.debugLog = this.debugLog.bind(this);
+
+    const inlineDebugger: GlobalDebugger = {
+      getData: (): DebugData[] => this.getData(),
+
+      clearData: (): void => this.clear(),
+
+      printData: (): void => this.printData(),
+
+      // Bound rather than wrapped, spans start at the caller of `trace`
+      trace: this.trace.bind(this),
+
+      on: (event: "entry", listener: EntryListener): (() => void) =>
+        this.on(event, listener),
+
+      getTimings: (): TimingStats[] => summarizeTimings(this.getData()),
+
+      getSnapshotData: (options?: SnapshotOptions): SnapshotEntry[] =>
+        this.snapshot({}, options),
+
+      query: (query?: EntryQuery): DebugData[] => this.query(query),
+
+      snapshot: (
+        query?: EntryQuery,
+        options?: SnapshotOptions
+      ): SnapshotEntry[] => this.snapshot(query, options),
+
+      clear: (): void => this.clear(),
+
+      reset: (): void => this.reset(),
+
+      session: <T>(name: string, fn: () => T, options?: SessionOptions): T =>
+        this.session(name, fn, options),
+
+      start: (name: string, options?: SessionOptions): void =>
+        this.start(name, options),
+
+      stop: (name?: string): void => this.stop(name),
+
+      pause: (): void => this.pause(),
+
+      resume: (): void => this.resume(),
+    };
+    target.inlineDebugger = inlineDebugger;
+  }
+}
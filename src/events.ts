@@ -0,0 +1,90 @@
+import { DebugData } from "./types";
+
+export type EntryListener = (entry: DebugData) => void;
+
+/**
+ * Hands every written entry to subscribers, as a callback or an async
+ * iterator
+ */
+export class EntryEmitter {
+  private listeners: Set<EntryListener> = new Set();
+
+  /**
+   * Call `listener` with every entry from now on
+   * Returns a function that unsubscribes it
+   */
+  public on(listener: EntryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.off(listener);
+  }
+
+  /**
+   * Stop calling `listener`
+   */
+  public off(listener: EntryListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Pass an entry to every listener
+   * A listener that throws must not break the code being debugged, nor keep
+   * other listeners from seeing the entry
+   */
+  public emit(entry: DebugData): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch {
+        // Ignored, see above
+      }
+    }
+  }
+
+  /**
+   * Iterate over entries as they are written
+   * Entries arriving while the consumer is busy are queued; leaving the
+   * `for await` loop unsubscribes
+   */
+  public iterate(): AsyncIterableIterator<DebugData> {
+    const queue: DebugData[] = [];
+    let waiting: ((result: IteratorResult<DebugData>) => void) | undefined;
+    let done = false;
+
+    const unsubscribe = this.on((entry) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = undefined;
+        resolve({ value: entry, done: false });
+      } else {
+        queue.push(entry);
+      }
+    });
+
+    const finish = (): Promise<IteratorResult<DebugData>> => {
+      done = true;
+      unsubscribe();
+      queue.length = 0;
+      waiting?.({ value: undefined, done: true });
+      waiting = undefined;
+      return Promise.resolve({ value: undefined, done: true });
+    };
+
+    return {
+      next: () => {
+        if (queue.length) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: finish,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
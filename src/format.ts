@@ -0,0 +1,113 @@
+import { preview } from "./serializer";
+import { DebugData, SerializedValue, StackFrame } from "./types";
+
+/**
+ * Format the value part of an entry
+ */
+function formatValue(item: DebugData): string {
+  const { called, prefix = "" } = item;
+
+  if (item.type === "log") {
+    return Array.isArray(called) ? called.join(" ") : String(called);
+  }
+  if (item.type === "error" && Array.isArray(called)) {
+    // Errors carry `[message, preview]`
+    return String(called[1] ?? called[0]);
+  }
+  return `${prefix}${typeof called === "string" ? called : String(called)}`;
+}
+
+/**
+ * Format recorded parameters as `a: 1, b: 2`
+ */
+function formatArgs(args: SerializedValue | undefined): string {
+  if (args?.type !== "object") {
+    return args ? preview(args) : "";
+  }
+  return args.properties
+    .map((property) =>
+      property.value
+        ? `${property.key}: ${preview(property.value)}`
+        : property.key
+    )
+    .join(", ");
+}
+
+/**
+ * Format a duration in ms
+ */
+export function formatDuration(duration: number): string {
+  return duration >= 1000
+    ? `${(duration / 1000).toFixed(2)}s`
+    : `${duration.toFixed(duration < 10 ? 2 : 1)}ms`;
+}
+
+/**
+ * Name an entry is shown under: its marker label, the projection applied to
+ * the watched variable (`$.items` on `user` reads `user.items`), or the
+ * variable itself
+ */
+export function entryName(item: DebugData): string | undefined {
+  if (item.label) {
+    return item.label;
+  }
+  if (item.projection) {
+    return item.projection.replace(/^\$/, item.variable ?? "$");
+  }
+  return item.variable;
+}
+
+/**
+ * Format one entry as a single line, without file information
+ */
+export function formatEntry(item: DebugData): string {
+  // Calls and timed watches end with how long they took
+  const value = `${formatValue(item)}${
+    item.duration !== undefined ? ` (${formatDuration(item.duration)})` : ""
+  }`;
+  const name = entryName(item);
+
+  if (item.callId !== undefined) {
+    // One call of a marked function, projections apply to its result
+    const callName = item.label ?? item.variable;
+    const callee = item.thisClass ? `${item.thisClass}.${callName}` : callName;
+    return `[${item.type.toUpperCase()}] ${callee}(${formatArgs(
+      item.args
+    )}) = ${value}`;
+  }
+
+  if (item.type === "variable") {
+    return item.binding
+      ? `${name} (${item.binding}) = ${value}`
+      : `${name} = ${value}`;
+  }
+  if (item.type === "expression") {
+    return name ? `${name} = ${value}` : value;
+  }
+
+  const tag = `[${item.type.toUpperCase()}]`;
+  return name ? `${tag} ${name} = ${value}` : `${tag} ${value}`;
+}
+
+/**
+ * Format the position of an entry, e.g. ` (line 12:5)`, or nothing if unknown
+ */
+export function formatLocation(item: DebugData): string {
+  if (!item.line) {
+    return "";
+  }
+  return item.column
+    ? ` (line ${item.line}:${item.column})`
+    : ` (line ${item.line})`;
+}
+
+/**
+ * Format one captured caller, e.g. `at checkout (src/cart.ts:12:5)`, showing
+ * its file as `filePath`
+ */
+export function formatFrame(frame: StackFrame, filePath: string): string {
+  const location = `${filePath}:${frame.line}:${frame.column}`;
+  return frame.functionName
+    ? `at ${frame.functionName} (${location})`
+    : `at ${location}`;
+}
@@ -0,0 +1,109 @@
+import { StackFrame } from "./types";
+
+/**
+ * Frames kept when no depth is configured
+ */
+export const DEFAULT_STACK_DEPTH = 10;
+
+const FRAME =
+  /^\s*(?:at )?(?:([^()]+?) \()?(?:file:\/\/)?([^()]+?):(\d+):(\d+)\)?$/;
+
+// Firefox and Safari write frames as `total@http://localhost:3000/cart.js:6:10`
+const FRAME_AT = /^\s*([^@]*)@(.+?):(\d+):(\d+)$/;
+
+/**
+ * Parse one frame of a stack trace, e.g. `at total (/app/cart.js:6:10)`
+ * Returns nothing for lines that are not frames, such as `eval` frames
+ */
+export function parseFrame(line: string): StackFrame | undefined {
+  const match = line.match(FRAME) ?? line.match(FRAME_AT);
+  if (!match) {
+    return undefined;
+  }
+  const [, functionName, filePath, lineNumber, column] = match;
+  return {
+    ...(functionName && { functionName }),
+    filePath: filePath as string,
+    line: Number(lineNumber),
+    column: Number(column),
+  };
+}
+
+/**
+ * Parse the frames of a stack trace, skipping the error message and lines
+ * that are not frames
+ */
+export function parseStack(stack: string): StackFrame[] {
+  return stack
+    .split("\n")
+    .map(parseFrame)
+    .filter((frame): frame is StackFrame => frame !== undefined);
+}
+
+/**
+ * Check whether a frame belongs to Node, the browser or a dependency
+ */
+function isInternalFrame(frame: StackFrame): boolean {
+  return (
+    frame.filePath.startsWith("node:") ||
+    frame.filePath.startsWith("internal/") ||
+    // `<anonymous>`, `native` and other frames without a file
+    !/[\\/]/.test(frame.filePath) ||
+    /[\\/]node_modules[\\/]/.test(frame.filePath)
+  );
+}
+
+/**
+ * Capture the frames leading to the call of `below`, without frames of Node,
+ * the browser and dependencies
+ * Tools like `source-map-support` already map positions, but name each frame
+ * after the function called there, so names are taken from V8 itself
+ */
+export function readStack(depth: number, below: Function): StackFrame[] {
+  const { prepareStackTrace, stackTraceLimit } = Error;
+  let names: (string | undefined)[] = [];
+  Error.prepareStackTrace = (error, callSites) => {
+    names = callSites.map((site) => parseFrame(String(site))?.functionName);
+    return prepareStackTrace
+      ? prepareStackTrace(error, callSites)
+      : [String(error), ...callSites.map((site) => `    at ${site}`)].join(
+          "\n"
+        );
+  };
+  // Leaves room for the frames that are stripped
+  Error.stackTraceLimit = depth + 20;
+  const holder: { stack?: string | undefined } = {};
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(holder, below);
+  } else {
+    holder.stack = new Error().stack;
+  }
+  const stack = holder.stack ?? "";
+  Error.prepareStackTrace = prepareStackTrace;
+  Error.stackTraceLimit = stackTraceLimit;
+
+  // Every V8 call site is one line after the message
+  let frames: StackFrame[] = [];
+  stack
+    .split("\n")
+    .slice(names.length ? 1 : 0)
+    .forEach((line, index) => {
+      const frame = parseFrame(line);
+      if (!frame) {
+        return;
+      }
+      const { functionName, ...position } = frame;
+      const name = names.length ? names[index] : functionName;
+      frames.push(name ? { functionName: name, ...position } : position);
+    });
+
+  // Engines without `captureStackTrace` keep the runtime's own frames
+  if (!Error.captureStackTrace) {
+    const last = frames
+      .map((frame) => frame.functionName ?? "")
+      .lastIndexOf(below.name);
+    frames = frames.slice(last + 1);
+  }
+
+  return frames.filter((frame) => !isInternalFrame(frame)).slice(0, depth);
+}
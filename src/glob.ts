@@ -0,0 +1,77 @@
+/**
+ * Minimal glob matching for include/exclude file filters
+ * Supports `**`, `*`, `?`, `{a,b}` alternatives and `[...]` character classes
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Escape a character for use in a regular expression
+ */
+function escapeRegExp(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, "^");
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  cache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Check whether a forward-slash separated path matches any of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(filePath));
+}
@@ -0,0 +1,110 @@
+/**
+ * Jest matchers for recorded entries, registered by the `jest-setup` module
+ * or with `expect.extend(matchers)`
+ */
+import { entryName } from "./format";
+import { preview, toPlain } from "./serializer";
+import { snapshotEntries } from "./snapshot";
+import { DebugData } from "./types";
+
+declare global {
+  namespace jest {
+    interface Matchers<R, T = {}> {
+      /**
+       * Check that an entry named `name`, after its label or variable, was
+       * recorded, with `value` when one is given
+       */
+      toHaveWatched(name: string, value?: unknown): R;
+      /**
+       * Compare entries with a snapshot, normalized by `snapshotEntries`
+       */
+      toMatchWatchSnapshot(hint?: string): R;
+    }
+  }
+}
+
+/**
+ * Recorded value of an entry as a plain value, or its preview when only that
+ * was stored
+ */
+function watchedValue(entry: DebugData): unknown {
+  if (!entry.value) {
+    return entry.called;
+  }
+  return entry.value.type === "undefined" ? undefined : toPlain(entry.value);
+}
+
+function assertEntries(received: unknown, matcherName: string): DebugData[] {
+  if (!Array.isArray(received)) {
+    throw new TypeError(
+      `${matcherName} expects the entries of getData() or getSnapshotData(), received ${typeof received}`
+    );
+  }
+  return received;
+}
+
+function toHaveWatched(
+  this: jest.MatcherContext,
+  received: DebugData[],
+  name: string,
+  ...expected: [value?: unknown]
+): jest.CustomMatcherResult {
+  const entries = assertEntries(received, "toHaveWatched");
+  const watched = entries.filter((entry) => entryName(entry) === name);
+  const pass = expected.length
+    ? watched.some((entry) => this.equals(watchedValue(entry), expected[0]))
+    : watched.length > 0;
+
+  const { printExpected, printReceived } = this.utils;
+  const hint = this.utils.matcherHint(
+    "toHaveWatched",
+    "entries",
+    expected.length ? "name, value" : "name",
+    { isNot: Boolean(this.isNot) }
+  );
+  const names = [
+    ...new Set(entries.map(entryName).filter((item) => item !== undefined)),
+  ];
+  return {
+    pass,
+    message: () =>
+      [
+        hint,
+        "",
+        `Name: ${printExpected(name)}`,
+        ...(expected.length
+          ? [
+              `Expected value: ${this.isNot ? "not " : ""}${printExpected(
+                expected[0]
+              )}`,
+            ]
+          : []),
+        watched.length
+          ? `Recorded values: ${watched
+              .map((entry) =>
+                entry.value ? preview(entry.value) : String(entry.called)
+              )
+              .join(", ")}`
+          : `Recorded names: ${
+              names.length ? printReceived(names) : "none, nothing was recorded"
+            }`,
+      ].join("\n"),
+  };
+}
+
+function toMatchWatchSnapshot(
+  this: jest.MatcherContext,
+  received: DebugData[],
+  ...hint: [hint?: string]
+): jest.CustomMatcherResult {
+  if (this.isNot) {
+    throw new Error("toMatchWatchSnapshot cannot be used with .not");
+  }
+  // Fails the test itself when the snapshot does not match
+  expect(
+    snapshotEntries(assertEntries(received, "toMatchWatchSnapshot"))
+  ).toMatchSnapshot(...hint);
+  return { pass: true, message: () => "" };
+}
+
+export const matchers = { toHaveWatched, toMatchWatchSnapshot };
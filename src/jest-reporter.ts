@@ -0,0 +1,132 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatEntryLines } from "./report";
+import { findShards, readOutput, writeMergedShards } from "./shards";
+import { DebugData } from "./types";
+
+export interface ReporterOptions {
+  // Output file the runtime writes, relative to the cwd of the run
+  outputFile?: string;
+  // Entries shown below each failure
+  maxEntries?: number;
+}
+
+/**
+ * The parts of Jest's test results the reporter reads and extends
+ */
+interface AssertionResult {
+  fullName: string;
+  failureMessages: string[];
+}
+
+interface TestResult {
+  testFilePath: string;
+  failureMessage?: string | null;
+  testResults: AssertionResult[];
+}
+
+// Start of the title line of one failure, `  ● describe › test`, after the
+// colors Jest may wrap it in
+const FAILURE_TITLE = /^(?:\u001b\[[\d;]*m)*  ● /gm;
+
+/**
+ * Lines shown below the failure of a test, with what was recorded in it
+ */
+export function formatCapturedLines(
+  entries: DebugData[],
+  maxEntries: number = 20,
+  cwd: string = process.cwd()
+): string[] {
+  if (!entries.length) {
+    return [];
+  }
+  const shown = entries.slice(0, maxEntries);
+  return [
+    "    📊 Captured by //? in this test:",
+    ...shown.flatMap((item) =>
+      formatEntryLines(item, cwd).map((line) => `      ${line}`)
+    ),
+    ...(entries.length > shown.length
+      ? [
+          `      … and ${
+            entries.length - shown.length
+          } more, see inline-debugger report`,
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Jest reporter printing what `//?` recorded in each failing test below its
+ * failure message, from entries tagged by the `jest-setup` module
+ * It must be listed before the reporters that print failures, e.g.
+ * `reporters: ["babel-plugin-inline-debugger/dist/jest-reporter", "default"]`,
+ * as it adds the lines to the failure messages they print
+ * Output of earlier runs is removed when the run starts, and shards written
+ * by workers are merged into the output file once it completed
+ */
+export default class InlineDebuggerReporter {
+  private outputPath: string;
+  private maxEntries: number;
+
+  constructor(_globalConfig: unknown, options: ReporterOptions = {}) {
+    this.outputPath = path.resolve(options.outputFile ?? ".debug.data.json");
+    this.maxEntries = options.maxEntries ?? 20;
+  }
+
+  public onRunStart(): void {
+    for (const file of [this.outputPath, ...findShards(this.outputPath)]) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  public onTestResult(_test: unknown, result: TestResult): void {
+    const failures = result.testResults.flatMap((test) =>
+      test.failureMessages.map(() => test.fullName)
+    );
+    if (!failures.length || !result.failureMessage) {
+      return;
+    }
+
+    const entries = readOutput(this.outputPath).filter(
+      (entry) => entry.testPath === result.testFilePath
+    );
+    const captured = (testName: string) =>
+      formatCapturedLines(
+        entries.filter((entry) => entry.testName === testName),
+        this.maxEntries
+      );
+
+    const message = result.failureMessage;
+    const starts = [...message.matchAll(FAILURE_TITLE)].map(
+      (match) => match.index as number
+    );
+    if (starts.length !== failures.length) {
+      // Failures of the file itself, e.g. a hook that threw, are not
+      // titled after tests; values are shown at the end
+      const lines = [...new Set(failures)].flatMap(captured);
+      if (lines.length) {
+        result.failureMessage = `${message}\n${lines.join("\n")}\n`;
+      }
+      return;
+    }
+
+    result.failureMessage =
+      message.slice(0, starts[0]) +
+      starts
+        .map((start, index) => {
+          const block = message.slice(start, starts[index + 1]);
+          const lines = captured(failures[index] as string);
+          return lines.length
+            ? block.replace(/(\s*)$/, `\n\n${lines.join("\n")}$1`)
+            : block;
+        })
+        .join("");
+  }
+
+  public onRunComplete(): void {
+    if (findShards(this.outputPath).length) {
+      writeMergedShards(this.outputPath, { clean: true });
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Jest setup file, for `setupFilesAfterEnv`, recording entries of the whole
+ * run with the test that recorded each of them and registering the matchers
+ * of `jest-matchers`
+ * Every test file of a worker adds to the worker's output file instead of
+ * replacing it, so old output is removed by the reporter (`jest-reporter`)
+ * when the run starts; the runtime writes the entries of each test file once
+ * it finished, before the reporter reads them
+ */
+import { matchers } from "./jest-matchers";
+import { annotate, initializeRuntime } from "./runtime";
+
+expect.extend(matchers);
+
+initializeRuntime({ storage: { append: true } });
+
+annotate((entry) => {
+  const { testPath, currentTestName } = expect.getState();
+  if (testPath) {
+    entry.testPath = testPath;
+  }
+  if (currentTestName) {
+    entry.testName = currentTestName;
+  }
+});
@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as net from "net";
+import { readDebugData } from "./storage";
+import { DebugData } from "./types";
+
+/**
+ * Stops following or serving entries
+ */
+export type Stop = () => void;
+
+/**
+ * Stream entries as JSON lines to every client of a local socket (a Unix
+ * socket path, or a named pipe on Windows)
+ * The server does not keep the process alive; `subscribe` registers the
+ * callback that receives entries and returns how to unsubscribe it
+ */
+export function serveEntries(
+  socketPath: string,
+  subscribe: (listener: (entry: DebugData) => void) => () => void
+): Stop {
+  const clients: Set<net.Socket> = new Set();
+  const server = net.createServer((socket) => {
+    socket.unref();
+    clients.add(socket);
+    socket.on("close", () => clients.delete(socket));
+    // Clients going away mid-write are dropped on close
+    socket.on("error", () => socket.destroy());
+  });
+
+  // A socket left behind by a process that did not exit cleanly
+  if (process.platform !== "win32" && fs.existsSync(socketPath)) {
+    fs.rmSync(socketPath, { force: true });
+  }
+  server.on("error", (error) => {
+    console.error(`inline-debugger: cannot serve ${socketPath}: ${error}`);
+  });
+  server.listen(socketPath);
+  server.unref();
+
+  const unsubscribe = subscribe((entry) => {
+    if (!clients.size) {
+      return;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    for (const client of clients) {
+      client.write(line);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    for (const client of clients) {
+      client.destroy();
+    }
+    server.close();
+  };
+}
+
+/**
+ * Call `onEntries` with entries appended to an output file, checking it every
+ * `interval` ms
+ * A file that shrank was cleared, so its entries are all new; with `all` the
+ * entries already in the file are passed first
+ */
+export function followFile(
+  filePath: string,
+  onEntries: (entries: DebugData[]) => void,
+  { interval = 250, all = false }: { interval?: number; all?: boolean } = {}
+): Stop {
+  const version = () => {
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+    return stats ? `${stats.size}:${stats.mtimeMs}` : "";
+  };
+
+  let seen = 0;
+  let last = "";
+  const read = () => {
+    const current = version();
+    if (current === last) {
+      return;
+    }
+    let entries: DebugData[];
+    try {
+      entries = readDebugData(filePath);
+    } catch {
+      // Caught between a truncate and a write, the next check reads it
+      return;
+    }
+    last = current;
+    if (entries.length < seen) {
+      seen = 0;
+    }
+    if (entries.length > seen) {
+      const added = entries.slice(seen);
+      seen = entries.length;
+      onEntries(added);
+    }
+  };
+
+  if (all) {
+    read();
+  } else {
+    last = version();
+    seen = readDebugData(filePath).length;
+  }
+  // Checked on a timer rather than with `fs.watch`, which misses renames and
+  // does not work on every file system
+  const timer = setInterval(read, interval);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Call `onEntries` with entries streamed by `serveEntries`
+ * `onClose` runs once the connection ended or failed, with the error if any
+ */
+export function followSocket(
+  socketPath: string,
+  onEntries: (entries: DebugData[]) => void,
+  onClose: (error?: Error) => void = () => {}
+): Stop {
+  let buffer = "";
+  let failure: Error | undefined;
+  const socket = net.connect(socketPath);
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    const lines = (buffer + chunk).split("\n");
+    buffer = lines.pop() as string;
+    const entries = lines
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as DebugData);
+    if (entries.length) {
+      onEntries(entries);
+    }
+  });
+  socket.on("error", (error) => {
+    failure = error;
+  });
+  socket.on("close", () => onClose(failure));
+
+  return () => socket.destroy();
+}
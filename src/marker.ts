@@ -0,0 +1,106 @@
+/**
+ * Parser for the text of `//?` markers
+ *
+ * `//?` followed directly by options, then an optional label or projection:
+ * - `//? total` names the watch
+ * - `//? $.items.length` records an expression evaluated against the value
+ * - `//?.` records only the one-line preview, `//?+` serializes at full depth
+ * - `//?json` and `//?table` ask reports to render the value that way
+ * - `//? if $.id === 42` records only when the condition holds
+ * - `//?first10`, `//?last10`, `//?every10` and `//?rate10/1s` sample hits
+ * - `//?time` records how long the expression took, or its promise to settle
+ * - `//?stack` records who called the code, `//?stack5` keeps 5 frames
+ */
+
+import { validatePolicy } from "./sampling";
+import { Marker } from "./types";
+
+const OPTION =
+  /^(\.|\+|json|table|time|(first|last|every)(\d+)|rate(\d+)\/(\d+)(ms|s|m)?|stack(\d+)?)/;
+
+const UNITS = { ms: 1, s: 1000, m: 60000 };
+
+/**
+ * Check whether a comment is a marker
+ */
+export function isMarkerComment(comment: { value: string }): boolean {
+  return comment.value.startsWith("?");
+}
+
+/**
+ * Parse the value of a marker comment, e.g. `?+ $.items` for `//?+ $.items`
+ * Throws on unknown or conflicting options
+ */
+export function parseMarker(value: string): Marker {
+  const match = value.match(/^\?(\S*)\s*([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`"${value}" is not a marker.`);
+  }
+
+  const marker: Marker = {};
+  let options = match[1] as string;
+
+  while (options) {
+    const found = options.match(OPTION);
+    const option = found?.[1];
+    if (!found || !option) {
+      throw new Error(
+        `Unknown marker option "${options}". Valid options are: ., +, json, table, time, stack, stack<N>, first<N>, last<N>, every<N>, rate<N>/<interval>.`
+      );
+    }
+    options = options.slice(option.length);
+
+    const [, , limit, count, rate, interval, unit, depth] = found;
+    if (limit || rate) {
+      if (marker.sample) {
+        throw new Error(`Marker sampling options cannot be combined.`);
+      }
+      marker.sample = limit
+        ? { [limit]: Number(count) }
+        : {
+            rate: Number(rate),
+            interval:
+              Number(interval) * UNITS[(unit ?? "ms") as keyof typeof UNITS],
+          };
+      validatePolicy(marker.sample);
+    } else if (option.startsWith("stack")) {
+      if (depth !== undefined && !(Number(depth) > 0)) {
+        throw new Error(
+          `Marker stack depth must be a positive integer, got ${depth}.`
+        );
+      }
+      marker.stack = depth !== undefined ? Number(depth) : true;
+    } else if (option === "time") {
+      marker.time = true;
+    } else if (option === "." || option === "+") {
+      const detail = option === "." ? "compact" : "full";
+      if (marker.detail && marker.detail !== detail) {
+        throw new Error(`Marker options "." and "+" cannot be combined.`);
+      }
+      marker.detail = detail;
+    } else {
+      if (marker.format && marker.format !== option) {
+        throw new Error(
+          `Marker options "json" and "table" cannot be combined.`
+        );
+      }
+      marker.format = option as "json" | "table";
+    }
+  }
+
+  const rest = (match[2] as string).trim();
+  const condition = rest.match(/^if(?:\s+([\s\S]*))?$/);
+  if (condition) {
+    if (!condition[1]) {
+      throw new Error(`Marker condition is missing after "if".`);
+    }
+    marker.condition = condition[1];
+    // `$` alone is the value, `$el` would just be a label starting with `$`
+  } else if (/^\$(?![\w$])/.test(rest)) {
+    marker.projection = rest;
+  } else if (rest) {
+    marker.label = rest;
+  }
+
+  return marker;
+}
@@ -0,0 +1,133 @@
+import { InstrumentKind, NormalizedPluginOptions } from "./types";
+
+/**
+ * All node kinds instrumented by default
+ */
+export const INSTRUMENT_KINDS: InstrumentKind[] = [
+  "variable",
+  "assignment",
+  "property",
+  "expression",
+  "log",
+  "call",
+  "await",
+  "throw",
+  "return",
+  "function",
+  "arrow",
+  "method",
+  "objectMethod",
+  "inline",
+];
+
+/**
+ * Module imported by transformed files when `injectRuntime` is on
+ */
+export const DEFAULT_RUNTIME_MODULE =
+  "babel-plugin-inline-debugger/dist/runtime";
+
+const KNOWN_OPTIONS = [
+  "enabled",
+  "enableDebugger",
+  "outputFile",
+  "include",
+  "exclude",
+  "instrument",
+  "injectRuntime",
+  "runtimeModule",
+  "captureReceiver",
+];
+
+/**
+ * Create an error for an invalid plugin option
+ */
+function optionError(message: string): Error {
+  return new Error(`[babel-plugin-inline-debugger] ${message}`);
+}
+
+/**
+ * Normalize a string or string array option into an array of globs
+ */
+function toPatterns(name: string, value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  const patterns = Array.isArray(value) ? value : [value];
+  if (!patterns.every((pattern) => typeof pattern === "string")) {
+    throw optionError(
+      `Option "${name}" must be a glob string or an array of glob strings.`
+    );
+  }
+
+  return patterns.map((pattern: string) => pattern.replace(/\\/g, "/"));
+}
+
+/**
+ * Validate raw plugin options and fill in defaults
+ */
+export function normalizePluginOptions(
+  raw: Record<string, unknown> = {}
+): NormalizedPluginOptions {
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_OPTIONS.includes(key)) {
+      throw optionError(
+        `Unknown option "${key}". Valid options are: ${KNOWN_OPTIONS.join(
+          ", "
+        )}.`
+      );
+    }
+  }
+
+  // `enableDebugger` is the name used by earlier versions of the README
+  const enabled = raw["enabled"] ?? raw["enableDebugger"] ?? true;
+  if (typeof enabled !== "boolean") {
+    throw optionError(`Option "enabled" must be a boolean.`);
+  }
+
+  const outputFile = raw["outputFile"];
+  if (outputFile !== undefined && typeof outputFile !== "string") {
+    throw optionError(`Option "outputFile" must be a string.`);
+  }
+
+  const instrument = raw["instrument"] ?? INSTRUMENT_KINDS;
+  if (!Array.isArray(instrument)) {
+    throw optionError(`Option "instrument" must be an array of node kinds.`);
+  }
+  for (const kind of instrument) {
+    if (!INSTRUMENT_KINDS.includes(kind)) {
+      throw optionError(
+        `Unknown instrument kind "${kind}". Valid kinds are: ${INSTRUMENT_KINDS.join(
+          ", "
+        )}.`
+      );
+    }
+  }
+
+  const injectRuntime = raw["injectRuntime"] ?? false;
+  if (typeof injectRuntime !== "boolean") {
+    throw optionError(`Option "injectRuntime" must be a boolean.`);
+  }
+
+  const runtimeModule = raw["runtimeModule"] ?? DEFAULT_RUNTIME_MODULE;
+  if (typeof runtimeModule !== "string" || !runtimeModule) {
+    throw optionError(`Option "runtimeModule" must be a non-empty string.`);
+  }
+
+  const captureReceiver = raw["captureReceiver"] ?? false;
+  if (typeof captureReceiver !== "boolean") {
+    throw optionError(`Option "captureReceiver" must be a boolean.`);
+  }
+
+  return {
+    // Environment variable still has the final say so CI can switch it off
+    enabled: enabled && process.env["INLINE_DEBUGGER_ENABLED"] !== "false",
+    outputFile,
+    include: toPatterns("include", raw["include"]),
+    exclude: toPatterns("exclude", raw["exclude"]),
+    instrument: new Set(instrument as InstrumentKind[]),
+    injectRuntime,
+    runtimeModule,
+    captureReceiver,
+  };
+}
@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import * as path from "path";
+import { RuntimeOptions } from "./types";
+
+/**
+ * Names of the rc file, looked up in the working directory
+ */
+export const RC_FILES = [".inline-debuggerrc", ".inline-debuggerrc.json"];
+
+/**
+ * Read runtime options from the rc file of a directory, a JSON object with
+ * the options of `initializeRuntime`, e.g.
+ * `{ "redact": { "keys": ["*ssn*"], "values": ["\\d{3}-\\d{2}-\\d{4}"] } }`
+ * A file that cannot be parsed throws, as it may hold redaction rules that
+ * must not be skipped
+ */
+export function readRcFile(cwd: string = process.cwd()): RuntimeOptions {
+  for (const name of RC_FILES) {
+    const filePath = path.join(cwd, name);
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+
+    let options: unknown;
+    try {
+      options = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      throw new Error(`Invalid ${filePath}: ${(error as Error).message}`);
+    }
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+      throw new Error(`Invalid ${filePath}: expected an object of options.`);
+    }
+    return options as RuntimeOptions;
+  }
+  return {};
+}
@@ -0,0 +1,131 @@
+import { RedactionRules } from "./types";
+
+export const REDACTED = "[REDACTED]";
+
+// Keys of credentials and sessions
+export const DEFAULT_REDACTED_KEYS = [
+  "*password*",
+  "*passwd*",
+  "*secret*",
+  "*token*",
+  "*apikey*",
+  "*api_key*",
+  "*api-key*",
+  "*privatekey*",
+  "*private_key*",
+  "authorization",
+  "cookie",
+  "set-cookie",
+];
+
+// JSON Web Tokens
+const JWT = /\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]+/g;
+
+// 13 to 19 digits, optionally grouped by spaces or dashes, checked with the
+// Luhn algorithm before they are hidden
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/**
+ * Redaction rules compiled for the serializer
+ */
+export interface Redactor {
+  // Whether a value is hidden entirely
+  hides(value: unknown, key: string | undefined, path: string): boolean;
+  // A string with the parts matching value rules hidden
+  text(value: string): string;
+}
+
+/**
+ * Check a card number with the Luhn algorithm
+ */
+function isCardNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Turn a key pattern into a regular expression matching whole keys
+ */
+function keyPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    // Without `g` or `y`, `test` would continue from the last match
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""));
+  }
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Global regular expression for a value rule, so every match is replaced
+ */
+function valuePattern(pattern: string | RegExp): RegExp {
+  if (typeof pattern === "string") {
+    return new RegExp(pattern, "g");
+  }
+  return pattern.global
+    ? pattern
+    : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+const compiled = new WeakMap<RedactionRules, Redactor>();
+
+/**
+ * Compile redaction rules, once per rules object
+ * Invalid patterns throw, so mistakes in the rules are not silently ignored
+ */
+export function compileRedaction(rules: RedactionRules): Redactor {
+  const cached = compiled.get(rules);
+  if (cached) {
+    return cached;
+  }
+
+  const defaults = rules.defaults ?? true;
+  const keys = [
+    ...(defaults ? DEFAULT_REDACTED_KEYS : []),
+    ...(rules.keys ?? []),
+  ].map(keyPattern);
+  const values = [
+    ...(defaults ? [JWT, CARD_NUMBER] : []),
+    ...(rules.values ?? []).map(valuePattern),
+  ];
+  const { custom } = rules;
+
+  const redactor: Redactor = {
+    hides: (value, key, path) => {
+      if (key !== undefined && keys.some((pattern) => pattern.test(key))) {
+        return true;
+      }
+      try {
+        return custom?.(value, key, path) ?? false;
+      } catch {
+        // A rule that fails hides the value rather than leaking it
+        return true;
+      }
+    },
+
+    text: (value) =>
+      values.reduce(
+        (text, pattern) =>
+          text.replace(pattern, (match) =>
+            pattern !== CARD_NUMBER || isCardNumber(match) ? REDACTED : match
+          ),
+        value
+      ),
+  };
+  compiled.set(rules, redactor);
+  return redactor;
+}
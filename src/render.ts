@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import { displayPath, formatEntry, groupByFile } from "./report";
+import { preview } from "./serializer";
+import { DebugData, RenderOptions, SerializedValue } from "./types";
+
+const ANSI = {
+  reset: "\u001b[0m",
+  dim: "\u001b[2m",
+  bold: "\u001b[1m",
+  red: "\u001b[31m",
+  green: "\u001b[32m",
+  cyan: "\u001b[36m",
+};
+
+type Color = keyof typeof ANSI;
+
+/**
+ * Read the lines of a source file, or `undefined` when it cannot be read
+ */
+function readSourceLines(filePath: string): string[] | undefined {
+  try {
+    return fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Group entries of one file by line
+ */
+function groupByLine(entries: DebugData[]): Map<number, DebugData[]> {
+  const lines = new Map<number, DebugData[]>();
+  for (const item of entries) {
+    const line = item.line ?? 0;
+    const group = lines.get(line);
+    if (group) {
+      group.push(item);
+    } else {
+      lines.set(line, [item]);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Cut text to a width, marking that it was truncated
+ */
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+/**
+ * Summarize all hits of a line as one annotation
+ */
+function annotate(items: DebugData[], width: number): string {
+  // Tell apart several watches on one line by their column
+  const columns = new Set(items.map((item) => item.column));
+  const values = items.map((item) =>
+    columns.size > 1 && item.column
+      ? `col ${item.column}: ${formatEntry(item)}`
+      : formatEntry(item)
+  );
+  const text =
+    values.length > 1
+      ? `${values.join(" | ")} (${values.length} hits)`
+      : values[0] ?? "";
+  return truncate(text, width);
+}
+
+/**
+ * Render instrumented source files with captured values appended to the
+ * marked lines, for the terminal
+ */
+export function renderSource(
+  entries: DebugData[],
+  options: RenderOptions = {}
+): string {
+  const { cwd = process.cwd(), color = false, width = 120 } = options;
+  const paint = (name: Color, text: string) =>
+    color ? `${ANSI[name]}${text}${ANSI.reset}` : text;
+
+  const sections: string[] = [];
+
+  for (const [filePath, items] of groupByFile(entries)) {
+    const title = paint("bold", `📁 ${displayPath(filePath, cwd)}`);
+    const lines = groupByLine(items);
+    const source = readSourceLines(filePath);
+
+    if (!source) {
+      const rendered = [...lines].map(
+        ([line, hits]) =>
+          `${paint("dim", String(line).padStart(4))} ${paint(
+            "green",
+            annotate(hits, width)
+          )}`
+      );
+      sections.push(
+        [title, paint("dim", "  (source not available)"), ...rendered].join(
+          "\n"
+        )
+      );
+      continue;
+    }
+
+    const gutter = String(source.length).length;
+    const rendered = source.map((text, index) => {
+      const number = paint("dim", String(index + 1).padStart(gutter));
+      const hits = lines.get(index + 1);
+      if (!hits) {
+        return `${number}  ${text}`;
+      }
+      const hasError = hits.some((hit) => hit.type === "error");
+      return `${number}  ${text} ${paint(
+        hasError ? "red" : "green",
+        annotate(hits, width)
+      )}`;
+    });
+
+    // Entries without a position go below the file
+    const unplaced = lines.get(0);
+    if (unplaced) {
+      rendered.push(
+        `${paint("dim", "?".padStart(gutter))}  ${paint(
+          "cyan",
+          annotate(unplaced, width)
+        )}`
+      );
+    }
+
+    sections.push([title, ...rendered].join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Children of a serialized value as label/value pairs
+ */
+function childrenOf(value: SerializedValue): [string, SerializedValue][] {
+  switch (value.type) {
+    case "array":
+    case "set":
+      return value.items.map((item, index) => [String(index), item]);
+    case "map":
+      return value.entries.map(([key, item]) => [preview(key), item]);
+    case "object":
+    case "error": {
+      const children: [string, SerializedValue][] = value.properties.map(
+        (property) => [
+          property.symbol ? `[${property.key}]` : property.key,
+          property.value ?? {
+            type: "unserializable",
+            message: property.getter ? "Getter" : "Setter",
+          },
+        ]
+      );
+      if (value.type === "error") {
+        if (value.cause) children.push(["cause", value.cause]);
+        if (value.stack) {
+          children.push(["stack", { type: "string", value: value.stack }]);
+        }
+      }
+      return children;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render a serialized value as an expandable tree
+ */
+function renderTree(value: SerializedValue, label?: string): string {
+  const head = label ? `<span class="key">${escapeHtml(label)}</span>: ` : "";
+  const children = childrenOf(value);
+  const text = `<span class="value ${escapeHtml(value.type)}">${escapeHtml(
+    preview(value)
+  )}</span>`;
+
+  if (!children.length) {
+    return `<div class="leaf">${head}${text}</div>`;
+  }
+
+  const items = children
+    .map(([key, child]) => `<li>${renderTree(child, key)}</li>`)
+    .join("");
+  return `<details><summary>${head}${text}</summary><ul>${items}</ul></details>`;
+}
+
+/**
+ * Render the captured value(s) of one hit
+ */
+function renderHit(item: DebugData, index: number): string {
+  const title = `<span class="hit">#${index + 1}</span> <span class="type">${escapeHtml(
+    item.type
+  )}</span>${
+    item.label ?? item.variable
+      ? ` <span class="key">${escapeHtml(
+          (item.label ?? item.variable) as string
+        )}</span>`
+      : ""
+  }${
+    item.prefix ? ` <span class="prefix">${escapeHtml(item.prefix)}</span>` : ""
+  }`;
+
+  const args = item.args ? renderTree(item.args, "args") : "";
+  const receiver = item.receiver ? renderTree(item.receiver, "receiver") : "";
+  const trees = item.values
+    ? item.values.map((value) => renderTree(value)).join("")
+    : item.value
+    ? renderTree(item.value)
+    : `<div class="leaf">${escapeHtml(formatEntry(item))}</div>`;
+
+  return `<div class="entry ${escapeHtml(item.type)}">${title}${args}${trees}${receiver}</div>`;
+}
+
+const HTML_STYLE = `
+body { font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; margin: 2em; color: #24292f; }
+h2 { font-size: 14px; margin: 2em 0 0.5em; }
+table { border-collapse: collapse; width: 100%; }
+td { vertical-align: top; padding: 0 0.5em; white-space: pre; }
+td.number { color: #8c959f; text-align: right; user-select: none; }
+tr.marked td.code { background: #fff8c5; }
+td.hits { white-space: normal; }
+.entry { border-left: 3px solid #2da44e; padding-left: 0.5em; margin-bottom: 0.25em; }
+.entry.error { border-color: #cf222e; }
+.hit, .type { color: #8c959f; }
+.key { color: #0550ae; }
+.value.string { color: #0a3069; }
+.value.number, .value.bigint, .value.boolean { color: #953800; }
+ul { list-style: none; margin: 0; padding-left: 1.25em; }
+summary { cursor: pointer; }
+`;
+
+/**
+ * Render instrumented source files with expandable captured values as a
+ * standalone HTML document
+ */
+export function renderHtml(
+  entries: DebugData[],
+  options: RenderOptions = {}
+): string {
+  const { cwd = process.cwd() } = options;
+  const sections: string[] = [];
+
+  for (const [filePath, items] of groupByFile(entries)) {
+    const lines = groupByLine(items);
+    const source =
+      readSourceLines(filePath) ??
+      Array.from({ length: Math.max(0, ...lines.keys()) }, () => "");
+
+    const rows = Array.from(source, (text = "", index) => {
+      const hits = lines.get(index + 1);
+      return `<tr${hits ? ` class="marked"` : ""}><td class="number">${
+        index + 1
+      }</td><td class="code">${escapeHtml(text)}</td><td class="hits">${
+        hits ? hits.map(renderHit).join("") : ""
+      }</td></tr>`;
+    });
+
+    const unplaced = lines.get(0);
+    if (unplaced) {
+      rows.push(
+        `<tr class="marked"><td class="number">?</td><td class="code"></td><td class="hits">${unplaced
+          .map(renderHit)
+          .join("")}</td></tr>`
+      );
+    }
+
+    sections.push(
+      `<section><h2>${escapeHtml(
+        displayPath(filePath, cwd)
+      )}</h2><table>${rows.join("\n")}</table></section>`
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Inline Debugger</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,372 @@
+import * as path from "path";
+import {
+  formatDuration,
+  formatEntry,
+  formatFrame,
+  formatLocation,
+} from "./format";
+import { matchesGlob } from "./glob";
+import { preview, toPlain } from "./serializer";
+import { summarizeTimings } from "./timing";
+import {
+  DebugData,
+  ReportFilters,
+  SerializedValue,
+  TimingStats,
+} from "./types";
+
+export { formatDuration, formatEntry, formatLocation } from "./format";
+
+/**
+ * Format the duration statistics of timed sites, one line per site
+ */
+export function formatTimings(
+  stats: TimingStats[],
+  cwd: string = process.cwd()
+): string[] {
+  return stats.map((site) => {
+    const position = [displayPath(site.filePath, cwd), site.line, site.column]
+      .filter((part) => part !== undefined)
+      .join(":");
+    const name = site.label ?? site.variable;
+    return `${position}${name ? ` ${name}` : ""}  count ${
+      site.count
+    }  min ${formatDuration(site.min)}  max ${formatDuration(
+      site.max
+    )}  mean ${formatDuration(site.mean)}  p95 ${formatDuration(site.p95)}`;
+  });
+}
+
+/**
+ * Rows of a value shown as a table: array and set items, map entries or
+ * object properties
+ */
+function tableRows(value: SerializedValue): [string, SerializedValue][] {
+  switch (value.type) {
+    case "array":
+    case "set":
+      return value.items.map((item, index) => [String(index), item]);
+    case "map":
+      return value.entries.map(([key, item]) => [preview(key), item]);
+    case "object":
+      return value.properties.map((property) => [
+        property.key,
+        property.value ?? { type: "undefined" },
+      ]);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render a value as a table, like `console.table`
+ */
+export function formatTable(value: SerializedValue): string[] {
+  const rows = tableRows(value);
+  if (!rows.length) {
+    return [];
+  }
+
+  const columns: string[] = [];
+  let hasValues = false;
+  for (const [, row] of rows) {
+    if (row.type === "object") {
+      for (const property of row.properties) {
+        if (!columns.includes(property.key)) columns.push(property.key);
+      }
+    } else {
+      hasValues = true;
+    }
+  }
+
+  const header = ["(index)", ...columns, ...(hasValues ? ["Value"] : [])];
+  const cells = rows.map(([key, row]) => [
+    key,
+    ...columns.map((column) => {
+      const property =
+        row.type === "object"
+          ? row.properties.find((item) => item.key === column)
+          : undefined;
+      return property?.value ? preview(property.value) : "";
+    }),
+    ...(hasValues ? [row.type === "object" ? "" : preview(row)] : []),
+  ]);
+
+  const widths = header.map((title, index) =>
+    Math.max(title.length, ...cells.map((row) => (row[index] as string).length))
+  );
+  const line = (left: string, middle: string, right: string) =>
+    `${left}${widths
+      .map((width) => "─".repeat(width + 2))
+      .join(middle)}${right}`;
+  const row = (values: string[]) =>
+    `│${values
+      .map((text, index) => ` ${text.padEnd(widths[index] as number)} `)
+      .join("│")}│`;
+
+  return [
+    line("┌", "┬", "┐"),
+    row(header),
+    line("├", "┼", "┤"),
+    ...cells.map(row),
+    line("└", "┴", "┘"),
+  ];
+}
+
+/**
+ * Extra lines for entries whose marker asked for `json` or `table` output
+ */
+export function formatDetails(item: DebugData): string[] {
+  if (!item.value || !item.format) {
+    return [];
+  }
+  if (item.format === "json") {
+    return JSON.stringify(toPlain(item.value), null, 2).split("\n");
+  }
+  return formatTable(item.value);
+}
+
+/**
+ * Callers captured for an entry, innermost first, e.g.
+ * `at checkout (src/cart.ts:12:5)`
+ */
+export function formatStack(
+  item: DebugData,
+  cwd: string = process.cwd()
+): string[] {
+  return (item.stack ?? []).map((frame) =>
+    formatFrame(frame, displayPath(frame.filePath, cwd))
+  );
+}
+
+/**
+ * Display path of a file, relative to `cwd` when inside it
+ */
+export function displayPath(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    ? relative
+    : filePath;
+}
+
+/**
+ * Parse a line filter such as `12`, `10-20`, `10-` or `-20`
+ */
+export function parseLineRange(range: string): [number, number] {
+  const match = range.match(/^(\d*)(?:(-)(\d*))?$/);
+  if (!match || (!match[1] && !match[3])) {
+    throw new Error(`Invalid line range "${range}"`);
+  }
+
+  const from = match[1] ? Number(match[1]) : 0;
+  if (!match[2]) {
+    return [from, from];
+  }
+  return [from, match[3] ? Number(match[3]) : Infinity];
+}
+
+/**
+ * Keep entries matching all given filters
+ */
+export function filterEntries(
+  entries: DebugData[],
+  filters: ReportFilters,
+  cwd: string = process.cwd()
+): DebugData[] {
+  return entries.filter((item) => {
+    if (filters.files?.length) {
+      const absolute = item.filePath.replace(/\\/g, "/");
+      const relative = path.relative(cwd, item.filePath).replace(/\\/g, "/");
+      if (
+        !matchesGlob(relative, filters.files) &&
+        !matchesGlob(absolute, filters.files)
+      ) {
+        return false;
+      }
+    }
+    if (filters.lines) {
+      const [from, to] = filters.lines;
+      const line = item.line ?? 0;
+      if (line < from || line > to) {
+        return false;
+      }
+    }
+    if (filters.types?.length && !filters.types.includes(item.type)) {
+      return false;
+    }
+    if (
+      filters.variables?.length &&
+      !filters.variables.includes(item.variable ?? "")
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Group entries by file, keeping the order files first appeared in
+ */
+export function groupByFile(entries: DebugData[]): Map<string, DebugData[]> {
+  const groups = new Map<string, DebugData[]>();
+  for (const item of entries) {
+    const group = groups.get(item.filePath);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(item.filePath, [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Render entries grouped by file
+ */
+export function formatReport(
+  entries: DebugData[],
+  cwd: string = process.cwd()
+): string {
+  const sections: string[] = [];
+
+  for (const [filePath, items] of groupByFile(entries)) {
+    const title = `📁 ${displayPath(filePath, cwd)}:`;
+    const lines = items.flatMap((item, index) => [
+      `  ${index + 1}. ${formatEntry(item)}${formatLocation(item)}`,
+      ...formatDetails(item).map((detail) => `     ${detail}`),
+      ...formatStack(item, cwd).map((frame) => `     ${frame}`),
+    ]);
+    sections.push(
+      [title, "─".repeat(Math.max(title.length - 1, 10)), ...lines].join("\n")
+    );
+  }
+
+  const timings = formatTimings(summarizeTimings(entries), cwd);
+  if (timings.length) {
+    const title = "⏱  Timings:";
+    sections.push(
+      [
+        title,
+        "─".repeat(Math.max(title.length - 1, 10)),
+        ...timings.map((line) => `  ${line}`),
+      ].join("\n")
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Span of the tree report with what was recorded in it
+ */
+interface SpanNode {
+  entry: DebugData;
+  items: (DebugData | SpanNode)[];
+}
+
+/**
+ * Render entries as a tree of `trace` spans, each listing what was recorded
+ * inside it and the spans opened below it in the order they started
+ * Entries recorded outside of spans come last
+ */
+export function formatTree(
+  entries: DebugData[],
+  cwd: string = process.cwd()
+): string {
+  const spans = new Map<number, SpanNode>();
+  const spanOf = (id: number, parentId?: number): SpanNode => {
+    let node = spans.get(id);
+    if (!node) {
+      // Spans still running when the data was written have no entry yet
+      node = {
+        entry: {
+          type: "span",
+          variable: `#${id}`,
+          called: "(unfinished)",
+          filePath: "unknown",
+          contextId: id,
+          ...(parentId !== undefined && { parentContextId: parentId }),
+        },
+        items: [],
+      };
+      spans.set(id, node);
+    }
+    return node;
+  };
+
+  for (const item of entries) {
+    if (item.type === "span" && item.contextId !== undefined) {
+      spanOf(item.contextId).entry = item;
+    }
+  }
+
+  const outside: DebugData[] = [];
+  for (const item of entries) {
+    if (item.type === "span") {
+      continue;
+    }
+    if (item.contextId === undefined) {
+      outside.push(item);
+    } else {
+      spanOf(item.contextId, item.parentContextId).items.push(item);
+    }
+  }
+
+  // Placeholders added for missing parents are visited as well
+  const roots: SpanNode[] = [];
+  for (const node of spans.values()) {
+    const { parentContextId } = node.entry;
+    if (parentContextId === undefined) {
+      roots.push(node);
+    } else {
+      spanOf(parentContextId).items.push(node);
+    }
+  }
+
+  // Spans are written when they finish, so they are placed by start time
+  const startOf = (item: DebugData | SpanNode): number =>
+    ("items" in item ? item.entry.start : item.timestamp) ?? Infinity;
+  const byStart = (a: DebugData | SpanNode, b: DebugData | SpanNode) =>
+    startOf(a) - startOf(b) || 0;
+  const render = (node: SpanNode, indent: string): string[] => [
+    `${indent}🧵 ${formatEntry(node.entry)}${formatLocation(node.entry)}`,
+    ...[...node.items]
+      .sort(byStart)
+      .flatMap((item) =>
+        "items" in item
+          ? render(item, `${indent}   `)
+          : formatEntryLines(item, cwd).map((line) => `${indent}   ${line}`)
+      ),
+  ];
+
+  const sections = roots
+    .sort(byStart)
+    .map((node) => render(node, "").join("\n"));
+  if (outside.length) {
+    sections.push(
+      [
+        "Outside of spans:",
+        ...outside.flatMap((item) =>
+          formatEntryLines(item, cwd).map((line) => `   ${line}`)
+        ),
+      ].join("\n")
+    );
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Format an entry with its file and callers, for output that mixes files
+ */
+export function formatEntryLines(
+  item: DebugData,
+  cwd: string = process.cwd()
+): string[] {
+  return [
+    `${formatEntry(item)}${formatLocation(item)} [${displayPath(
+      item.filePath,
+      cwd
+    )}]`,
+    ...formatStack(item, cwd).map((frame) => `  ${frame}`),
+  ];
+}
@@ -0,0 +1,372 @@
+import { ContextTracker } from "./context";
+import { InlineDebuggerCore } from "./core";
+import { formatEntry, formatFrame, formatLocation } from "./format";
+import { preview } from "./serializer";
+import { snapshotEntries } from "./snapshot";
+import { DEFAULT_MEMORY_LIMIT } from "./store";
+import { summarizeTimings } from "./timing";
+import {
+  CollectorBatch,
+  DebugData,
+  RuntimeOptions,
+  StorageOptions,
+} from "./types";
+
+// Where `inline-debugger serve` listens by default
+const DEFAULT_COLLECTOR = "http://127.0.0.1:7357";
+
+// Entries are sent sooner than files are written, so pages show up live
+const DEFAULT_BATCH_OPTIONS = { flushInterval: 250, flushSize: 100 };
+
+// Wait before trying a collector that could not be reached again, in ms
+const RETRY_INTERVAL = 5000;
+
+// `WebSocket.OPEN`
+const OPEN = 1;
+
+interface WebSocketLike {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: (() => void) | null;
+  onclose: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+/**
+ * Browser APIs the runtime uses when they exist, it is also loaded by Node in
+ * tests and server rendering
+ */
+interface BrowserGlobals {
+  window?: unknown;
+  fetch?: (
+    url: string,
+    init: { method: string; headers: Record<string, string>; body: string }
+  ) => Promise<{ ok: boolean; status: number }>;
+  WebSocket?: new (url: string) => WebSocketLike;
+  navigator?: { sendBeacon?: (url: string, data: string) => boolean };
+  addEventListener?: (type: string, listener: () => void) => void;
+}
+
+const browser = globalThis as unknown as BrowserGlobals;
+
+/**
+ * Last segment of a path or URL
+ */
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() as string;
+}
+
+/**
+ * Runtime for instrumented code bundled for the browser
+ * Entries are kept in memory and sent in batches to a collector started with
+ * `inline-debugger serve`, which writes them to the same output files as the
+ * Node runtime; while no collector is reachable they stay in memory only,
+ * readable with `window.inlineDebugger.getData()`
+ * Spans and marked calls are only followed while code runs synchronously,
+ * callers are not source-mapped
+ */
+export class InlineDebuggerBrowserRuntime extends InlineDebuggerCore {
+  protected contexts: ContextTracker = new ContextTracker();
+  private pending: Map<string, DebugData[]> = new Map();
+  private pendingCount: number = 0;
+  // Entries of each output file queued at most, like those kept in memory
+  private pendingLimit: number;
+  private collector: string | false;
+  private batchOptions: Required<
+    Pick<StorageOptions, "flushInterval" | "flushSize">
+  >;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private sending: Promise<void> | undefined;
+  private socket: WebSocketLike | undefined;
+  private reachable: boolean = true;
+  private exitHooks: (() => void)[] = [];
+
+  constructor(options: RuntimeOptions = {}) {
+    super(options);
+    this.collector = options.collector ?? DEFAULT_COLLECTOR;
+    this.batchOptions = { ...DEFAULT_BATCH_OPTIONS, ...options.storage };
+    this.pendingLimit = options.memoryLimit ?? DEFAULT_MEMORY_LIMIT;
+    browser.addEventListener?.("pagehide", () => this.leave());
+  }
+
+  /**
+   * Initialize the runtime
+   */
+  public override initialize(options: RuntimeOptions = {}): {
+    outputFile: string;
+  } {
+    if (options.storage) {
+      this.batchOptions = { ...this.batchOptions, ...options.storage };
+    }
+    if (options.memoryLimit !== undefined) {
+      this.pendingLimit = options.memoryLimit;
+    }
+    if (
+      options.collector !== undefined &&
+      options.collector !== this.collector
+    ) {
+      this.collector = options.collector;
+      this.reachable = true;
+      this.socket?.close();
+      this.socket = undefined;
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      if (!this.collector) {
+        this.pending.clear();
+        this.pendingCount = 0;
+      }
+    }
+    return super.initialize(options);
+  }
+
+  /**
+   * Queue an entry for the collector
+   */
+  protected store(outputFile: string, entry: DebugData): void {
+    if (!this.collector) {
+      return;
+    }
+
+    const pending = this.pending.get(outputFile) ?? [];
+    pending.push(entry);
+    this.pendingCount++;
+    // While the collector is unreachable the oldest entries are dropped, in
+    // chunks like those kept in memory
+    if (pending.length >= this.pendingLimit * 2) {
+      const dropped = pending.splice(0, pending.length - this.pendingLimit);
+      this.pendingCount -= dropped.length;
+    }
+    this.pending.set(outputFile, pending);
+    if (this.reachable && this.pendingCount >= this.batchOptions.flushSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Drop queued entries of an output file, entries already sent stay in the
+   * collector's file
+   */
+  protected discard(outputFile: string): void {
+    this.pendingCount -= this.pending.get(outputFile)?.length ?? 0;
+    this.pending.delete(outputFile);
+  }
+
+  /**
+   * Run `hook` when the page is left, before the last entries are sent
+   */
+  protected onExit(hook: () => void): void {
+    this.exitHooks.push(hook);
+  }
+
+  /**
+   * Send queued entries after the flush interval, or once the retry interval
+   * passed while the collector is unreachable
+   */
+  private scheduleFlush(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(
+      () => {
+        this.timer = undefined;
+        void this.flush();
+      },
+      this.reachable ? this.batchOptions.flushInterval : RETRY_INTERVAL
+    );
+    // Does not keep Node alive when the runtime is loaded there
+    this.timer.unref?.();
+  }
+
+  /**
+   * Send queued entries to the collector, including hits held back by
+   * sampling policies
+   * Resolves once everything queued so far was sent or the collector turned
+   * out to be unreachable
+   */
+  public flush(): Promise<void> {
+    this.drainSampler();
+    if (!this.sending) {
+      this.sending = this.send().finally(() => {
+        this.sending = undefined;
+      });
+    }
+    return this.sending;
+  }
+
+  /**
+   * Send one batch per output file until the queue is empty
+   * A batch that fails goes back to the front of the queue
+   */
+  private async send(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    let next: [string, DebugData[]] | undefined;
+    while (this.collector && (next = this.pending.entries().next().value)) {
+      const [outputFile, entries] = next;
+      this.pending.delete(outputFile);
+      this.pendingCount -= entries.length;
+      try {
+        await this.transmit(this.collector, { outputFile, entries });
+      } catch (error) {
+        const queued = this.pending.get(outputFile) ?? [];
+        const kept = [...entries, ...queued].slice(-this.pendingLimit);
+        this.pending.set(outputFile, kept);
+        this.pendingCount += kept.length - queued.length;
+        this.unreachable(error as Error);
+        return;
+      }
+      if (!this.reachable) {
+        this.reachable = true;
+        console.info(`inline-debugger: sending entries to ${this.collector}`);
+      }
+    }
+  }
+
+  /**
+   * Send one batch with a POST request, or over a WebSocket for `ws://`
+   * collectors
+   */
+  private async transmit(
+    collector: string,
+    batch: CollectorBatch
+  ): Promise<void> {
+    const body = JSON.stringify(batch);
+    if (/^wss?:/.test(collector)) {
+      const socket = await this.connect(collector);
+      socket.send(body);
+      return;
+    }
+
+    if (!browser.fetch) {
+      throw new Error("fetch is not available");
+    }
+    const response = await browser.fetch(`${collector}/entries`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`the collector answered ${response.status}`);
+    }
+  }
+
+  /**
+   * Open WebSocket to the collector, reusing the current one
+   */
+  private connect(collector: string): Promise<WebSocketLike> {
+    if (this.socket?.readyState === OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    const { WebSocket } = browser;
+    if (!WebSocket) {
+      return Promise.reject(new Error("WebSocket is not available"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${collector}/entries`);
+      this.socket = socket;
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error("the connection failed"));
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        reject(new Error("the connection was closed"));
+      };
+    });
+  }
+
+  /**
+   * Keep entries in memory until the collector can be reached, telling the
+   * developer once
+   */
+  private unreachable(error: Error): void {
+    if (this.reachable) {
+      this.reachable = false;
+      console.warn(
+        `inline-debugger: cannot send entries to ${this.collector} (${error.message}), ` +
+          "they are kept in memory, read them with " +
+          "window.inlineDebugger.getData() or start `inline-debugger serve`"
+      );
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Send what is left when the page is left, with `sendBeacon` as requests
+   * started then may be cancelled
+   */
+  private leave(): void {
+    for (const hook of this.exitHooks) {
+      hook();
+    }
+    const { collector } = this;
+    if (!collector || !this.reachable) {
+      return;
+    }
+    const sendBeacon = browser.navigator?.sendBeacon?.bind(browser.navigator);
+    if (/^wss?:/.test(collector) || !sendBeacon) {
+      void this.flush();
+      return;
+    }
+    for (const [outputFile, entries] of this.pending) {
+      sendBeacon(
+        `${collector}/entries`,
+        JSON.stringify({ outputFile, entries })
+      );
+    }
+    this.pending.clear();
+    this.pendingCount = 0;
+  }
+
+  /**
+   * Print entries with their file name and stack
+   */
+  protected printData(): void {
+    console.log("📊 Debug Results:");
+    this.getData().forEach((item, index) => {
+      const lineInfo = formatLocation(item);
+      const fileInfo = item.filePath ? ` [${fileName(item.filePath)}]` : "";
+      console.log(
+        `${index + 1}. ${formatEntry(item)}${lineInfo}${fileInfo}`
+      );
+      (item.stack ?? []).forEach((frame) =>
+        console.log(`   ${formatFrame(frame, frame.filePath)}`)
+      );
+    });
+  }
+}
+
+// Create global instance
+const runtime = new InlineDebuggerBrowserRuntime();
+
+// Named exports used by the imports the plugin injects (`injectRuntime`)
+export const inlineDebuggerWatch = runtime.inlineDebuggerWatch.bind(runtime);
+export const inlineDebuggerCall = runtime.inlineDebuggerCall.bind(runtime);
+export const debugLog = runtime.debugLog.bind(runtime);
+export const trace = runtime.trace.bind(runtime);
+export const on = runtime.on.bind(runtime);
+export const off = runtime.off.bind(runtime);
+export const entries = runtime.entries.bind(runtime);
+export const query = runtime.query.bind(runtime);
+export const snapshot = runtime.snapshot.bind(runtime);
+export const clear = runtime.clear.bind(runtime);
+export const reset = runtime.reset.bind(runtime);
+export const session = runtime.session.bind(runtime);
+export const start = runtime.start.bind(runtime);
+export const stop = runtime.stop.bind(runtime);
+export const pause = runtime.pause.bind(runtime);
+export const resume = runtime.resume.bind(runtime);
+export const initializeRuntime = runtime.initialize.bind(runtime);
+export const setupGlobals = runtime.setupGlobals.bind(runtime);
+export const flush = runtime.flush.bind(runtime);
+export { preview, snapshotEntries, summarizeTimings };
+
+// Pages get `window.inlineDebugger` as soon as the runtime is imported
+if (typeof browser.window !== "undefined") {
+  runtime.setupGlobals();
+}
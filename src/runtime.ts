@@ -1,31 +1,68 @@
-import * as fs from "fs";
+import { AsyncLocalStorage, executionAsyncId } from "async_hooks";
 import * as path from "path";
-import { DebugData, RuntimeOptions } from "./types";
+import { ContextTracker } from "./context";
+import { InlineDebuggerCore } from "./core";
+import { serveEntries, Stop } from "./live";
+import { readRcFile } from "./rc";
+import { renderHtml, renderSource } from "./render";
+import { formatEntry, formatLocation, formatStack } from "./report";
+import { preview } from "./serializer";
+import {
+  findShards,
+  getShardKey,
+  getShardPath,
+  getWorkerId,
+  isOwnShard,
+  isSharded,
+  mergeShards,
+  writeMergedShards,
+} from "./shards";
+import { addFlushHook, DebugStorage, flushAll, readDebugData } from "./storage";
+import { snapshotEntries } from "./snapshot";
+import { captureStack } from "./stack";
+import { summarizeTimings } from "./timing";
+import {
+  DebugData,
+  GlobalDebugger,
+  RuntimeOptions,
+  ShardMode,
+  StackFrame,
+  StorageOptions,
+} from "./types";
 
 // Global type declarations
 declare global {
-  var inlineDebugger: {
-    getData: () => DebugData[];
-    clearData: () => void;
-    printData: () => void;
-    getSnapshotData: () => any[];
-  };
+  var inlineDebugger: GlobalDebugger;
 }
 
-// Configuration constants
-const UNDEFINED_FLAG = "__INLINE_DEBUGGER_UNDEFINED__";
-
 /**
  * Inline Debugger Runtime Class
  * Handles monitoring, data collection, and global utilities
  */
-export class InlineDebuggerRuntime {
-  private dataFile: DebugData[] = [];
-  private outputFile: string;
-  private isInitialized: boolean = false;
-
-  constructor(options: RuntimeOptions = {}) {
-    this.outputFile = options.outputFile || ".debug.data.json";
+export class InlineDebuggerRuntime extends InlineDebuggerCore {
+  protected contexts: ContextTracker = new ContextTracker(
+    new AsyncLocalStorage(),
+    executionAsyncId
+  );
+  private storages: Map<string, DebugStorage> = new Map();
+  private storageOptions: StorageOptions;
+  private shard: ShardMode;
+  private socket: { path: string; stop: Stop } | undefined;
+
+  constructor(runtimeOptions: RuntimeOptions = {}) {
+    // Options passed in take precedence over those of the rc file
+    const options = { ...readRcFile(), ...runtimeOptions };
+    super(options);
+    this.storageOptions = options.storage || {};
+    this.shard = options.shard ?? "auto";
+    const socket =
+      options.socket ??
+      (typeof process !== "undefined"
+        ? process.env["INLINE_DEBUGGER_SOCKET"]
+        : undefined);
+    if (socket) {
+      this.serve(socket);
+    }
 
     // Auto-initialize if in Node.js
     if (typeof process !== "undefined") {
@@ -36,257 +73,174 @@ export class InlineDebuggerRuntime {
   /**
    * Initialize the runtime
    */
-  public initialize(options: RuntimeOptions = {}): { outputFile: string } {
-    if (options.outputFile) {
-      this.outputFile = options.outputFile;
+  public override initialize(options: RuntimeOptions = {}): {
+    outputFile: string;
+  } {
+    if (options.storage) {
+      this.storageOptions = { ...this.storageOptions, ...options.storage };
+      for (const storage of this.storages.values()) {
+        storage.configure(this.storageOptions);
+      }
     }
-
-    this.isInitialized = true;
-
-    // Set up process event handlers
-    if (typeof process !== "undefined") {
-      process.on("exit", () => this.save(false));
-      process.on("beforeExit", () => this.save(false));
+    if (options.socket !== undefined) {
+      this.serve(options.socket);
+    }
+    if (options.shard !== undefined && options.shard !== this.shard) {
+      this.flush();
+      this.storages.clear();
+      this.shard = options.shard;
     }
 
-    return { outputFile: this.outputFile };
+    // Storages flush themselves on exit, signals and uncaught exceptions
+    return super.initialize(options);
   }
 
   /**
-   * Ensure runtime is initialized
+   * Append an entry to its output file
    */
-  private ensureInitialized(): void {
-    if (!this.isInitialized) {
-      this.initialize();
-    }
+  protected store(outputFile: string, entry: DebugData): void {
+    this.getStorage(outputFile).append(entry);
   }
 
   /**
-   * Stringify function with special handling
+   * Drop buffered entries of an output file and remove the file
    */
-  private stringify(obj: any): string {
-    let cache: any[] = [];
-    const str = JSON.stringify(obj, (_key: string, value: any) => {
-      if (typeof value === "function") {
-        const fn =
-          this.getFn(value.toString()) ?? this.getArrowFn(value.toString());
-        return fn;
-      }
-      if (value === undefined) {
-        return UNDEFINED_FLAG;
-      }
-      if (typeof value === "object" && value !== null) {
-        if (value?.then) {
-          return "Promise";
-        }
-        if (cache.indexOf(value) !== -1) {
-          return; // Circular reference
-        }
-        cache.push(value);
-      }
-      return value;
-    });
-    cache = [];
-    return str;
+  protected discard(outputFile: string): void {
+    this.getStorage(outputFile).clear();
   }
 
   /**
-   * Get function representation
+   * Run `hook` before storages flush on exit, signals and uncaught exceptions
    */
-  private getFn(fnStr: string): string | null {
-    const match = fnStr.match(/function\s*(\w*)\s*\([^)]*\)\s*{[\s\S]*}/);
-    return match ? match[0] : null;
+  protected onExit(hook: () => void): void {
+    addFlushHook(hook);
   }
 
   /**
-   * Get arrow function representation
+   * Source-mapped callers
    */
-  private getArrowFn(fnStr: string): string | null {
-    const match = fnStr.match(/\([^)]*\)\s*=>\s*{[\s\S]*}/);
-    return match ? match[0] : null;
+  protected override captureStack(
+    depth: number,
+    below: Function
+  ): StackFrame[] {
+    return captureStack(depth, below);
   }
 
   /**
-   * Try to stringify a value
+   * Lets entries from several processes be merged into one ordered list
    */
-  private tryToStringify(value: any): string {
-    try {
-      return this.stringify(value);
-    } catch (error) {
-      return `[Error stringifying: ${(error as Error).message}]`;
+  protected override stamp(dataValue: DebugData): void {
+    dataValue.pid = process.pid;
+    const worker = getWorkerId();
+    if (worker !== undefined) {
+      dataValue.worker = worker;
     }
+    super.stamp(dataValue);
   }
 
   /**
-   * Handle error in monitoring
+   * Stream entries to clients of a local socket, e.g. `inline-debugger tail
+   * --socket`, replacing the socket served before; an empty path stops serving
    */
-  private onError(error: Error, dataValue: DebugData): void {
-    const stringError = this.tryToStringify(error);
-    dataValue.type = "error";
-    dataValue.called = [error.message, stringError];
-  }
-
-  /**
-   * Save data to file
-   */
-  private save(hide: boolean, dataValue?: DebugData): void {
-    if (hide) {
+  private serve(socketPath: string): void {
+    if (this.socket?.path === socketPath) {
       return;
     }
-
-    if (dataValue) {
-      this.dataFile.push(dataValue);
-    }
-
-    // Always write to file
-    const outputPath = path.join(process.cwd(), this.outputFile);
-    fs.writeFileSync(outputPath, JSON.stringify(this.dataFile, null, 2));
+    this.socket?.stop();
+    this.socket = socketPath
+      ? {
+          path: socketPath,
+          stop: serveEntries(socketPath, (listener) =>
+            this.on("entry", listener)
+          ),
+        }
+      : undefined;
   }
 
   /**
-   * Main monitoring function
+   * Get the storage writing an output file, or this process' shard of it
    */
-  public inlineDebuggerWatch(data: DebugData): any {
-    this.ensureInitialized(); // Auto-initialize if needed
-
-    const dataValue: DebugData = {
-      ...data,
-      called: "Failed Promise. Please use a .catch to display it",
-    };
-    let called: any;
-
-    try {
-      called = data.called();
-    } catch (error) {
-      this.onError(error as Error, dataValue);
-      this.save(data.hide || false, dataValue);
-      throw error;
-    }
-
-    if (data.type === "error") {
-      this.onError(called as Error, dataValue);
-      this.save(data.hide || false, dataValue);
-      throw called;
-    }
-
-    if (called?.then) {
-      data.called = called
-        .then((r: any) => {
-          dataValue.prefix = "Resolved Promise: ";
-          dataValue.called = this.tryToStringify(r);
-          this.save(data.hide || false, dataValue);
-          return r;
-        })
-        .catch((err: any) => {
-          dataValue.prefix = "Rejected Promise: ";
-          dataValue.called = this.tryToStringify(err);
-          this.save(data.hide || false, dataValue);
-          throw err;
+  private getStorage(outputFile: string): DebugStorage {
+    let storage = this.storages.get(outputFile);
+    if (!storage) {
+      const outputPath = path.resolve(process.cwd(), outputFile);
+      if (isSharded(this.shard)) {
+        const shardPath = getShardPath(outputPath, getShardKey());
+        // Runtimes of later test files of a worker add to its shard, only
+        // shards of earlier runs are replaced
+        storage = new DebugStorage(shardPath, {
+          ...this.storageOptions,
+          ...(isOwnShard(shardPath) && { append: true }),
         });
-    } else {
-      dataValue.called = this.tryToStringify(called);
-      this.save(data.hide || false, dataValue);
+      } else {
+        storage = new DebugStorage(outputPath, this.storageOptions);
+      }
+      this.storages.set(outputFile, storage);
     }
-
-    return called;
+    return storage;
   }
 
   /**
-   * Console log wrapper
+   * Write buffered entries of every output file to disk, including hits held
+   * back by sampling policies
    */
-  public debugLog(logFn: (...args: any[]) => void, data: DebugData): void {
-    this.ensureInitialized(); // Auto-initialize if needed
-
-    logFn(...data.called);
-    data.called = data.called.map((entry: any) => this.tryToStringify(entry));
-    // Add file path if not present
-    if (!data.filePath) {
-      data.filePath = "unknown";
+  public flush(): void {
+    this.drainSampler();
+    for (const storage of this.storages.values()) {
+      storage.flush();
     }
-    this.save(false, data);
   }
 
   /**
-   * Setup global utilities for testing environments
+   * Print entries with their file name and stack
    */
-  public setupGlobals(): void {
-    this.ensureInitialized(); // Auto-initialize if needed
-
-    // Make runtime functions available globally
-    if (typeof global !== "undefined") {
-      (global as any).inlineDebuggerWatch = this.inlineDebuggerWatch.bind(this);
-      (global as any).debugLog = this.debugLog.bind(this);
-
-      // Global test utilities
-      (global as any).inlineDebugger = {
-        getData: (): DebugData[] => {
-          if (fs.existsSync(this.outputFile)) {
-            return JSON.parse(fs.readFileSync(this.outputFile, "utf8"));
-          }
-          return [];
-        },
-
-        clearData: (): void => {
-          if (fs.existsSync(this.outputFile)) {
-            fs.unlinkSync(this.outputFile);
-          }
-        },
-
-        printData: (): void => {
-          const data = (global as any).inlineDebugger.getData();
-          console.log("📊 Debug Results:");
-          data.forEach((item: any, index: number) => {
-            const {
-              type,
-              variable,
-              called,
-              line,
-              filePath,
-              prefix = "",
-            } = item;
-            const fileName = path.basename(filePath);
-            const lineInfo = line ? ` (line ${line})` : "";
-            const fileInfo = filePath ? ` [${fileName}]` : "";
-
-            if (type === "variable") {
-              console.log(
-                `${index + 1}. ${variable} = ${called}${lineInfo}${fileInfo}`
-              );
-            } else if (type === "expression") {
-              console.log(
-                `${index + 1}. ${prefix}${called}${lineInfo}${fileInfo}`
-              );
-            } else if (type === "log") {
-              console.log(
-                `${index + 1}. [LOG] ${called}${lineInfo}${fileInfo}`
-              );
-            } else if (type === "error") {
-              console.log(
-                `${index + 1}. [ERROR] ${called}${lineInfo}${fileInfo}`
-              );
-            }
-          });
-        },
-
-        getSnapshotData: (): any[] => {
-          const data = (global as any).debugger.getData();
-          return data.map((item: any) => ({
-            type: item.type,
-            variable: item.variable,
-            called: item.called,
-            line: item.line,
-            filePath: path.basename(item.filePath),
-            prefix: item.prefix,
-          }));
-        },
-      };
-    }
+  protected printData(): void {
+    console.log("📊 Debug Results:");
+    this.getData().forEach((item, index) => {
+      const lineInfo = formatLocation(item);
+      const fileInfo = item.filePath
+        ? ` [${path.basename(item.filePath)}]`
+        : "";
+      console.log(
+        `${index + 1}. ${formatEntry(item)}${lineInfo}${fileInfo}`
+      );
+      formatStack(item).forEach((frame) => console.log(`   ${frame}`));
+    });
   }
 }
 
 // Create global instance
 const runtime = new InlineDebuggerRuntime();
 
+// Inside Jest, listeners of `exit` and signals are added to the sandboxed
+// `process` of a test file and never run, so the entries of each test file
+// are written once it finished
+if (typeof afterAll === "function") {
+  try {
+    afterAll(() => runtime.flush());
+  } catch {
+    // Required from inside a test, where hooks cannot be added
+  }
+}
+
+// Named exports used by the imports the plugin injects (`injectRuntime`)
+export const inlineDebuggerWatch = runtime.inlineDebuggerWatch.bind(runtime);
+export const inlineDebuggerCall = runtime.inlineDebuggerCall.bind(runtime);
+export const debugLog = runtime.debugLog.bind(runtime);
+export const trace = runtime.trace.bind(runtime);
+export const annotate = runtime.annotate.bind(runtime);
+export const query = runtime.query.bind(runtime);
+export const snapshot = runtime.snapshot.bind(runtime);
+export const clear = runtime.clear.bind(runtime);
+export const reset = runtime.reset.bind(runtime);
+export const session = runtime.session.bind(runtime);
+export const start = runtime.start.bind(runtime);
+export const stop = runtime.stop.bind(runtime);
+export const pause = runtime.pause.bind(runtime);
+export const resume = runtime.resume.bind(runtime);
+export const initializeRuntime = runtime.initialize.bind(runtime);
+export const flush = runtime.flush.bind(runtime);
+
 // Export for use in transformed code
 if (typeof module !== "undefined" && module.exports) {
   module.exports = {
@@ -294,24 +248,41 @@ if (typeof module !== "undefined" && module.exports) {
     InlineDebuggerRuntime,
 
     // Instance methods (bound to global instance)
-    inlineDebuggerWatch: runtime.inlineDebuggerWatch.bind(runtime),
-    debugLog: runtime.debugLog.bind(runtime),
-    initializeRuntime: runtime.initialize.bind(runtime),
+    inlineDebuggerWatch,
+    inlineDebuggerCall,
+    debugLog,
+    trace,
+    annotate,
+    query,
+    snapshot,
+    clear,
+    reset,
+    session,
+    start,
+    stop,
+    pause,
+    resume,
+    on: runtime.on.bind(runtime),
+    off: runtime.off.bind(runtime),
+    entries: runtime.entries.bind(runtime),
+    initializeRuntime,
     setupGlobals: runtime.setupGlobals.bind(runtime),
+    flush,
 
     // Utility functions
+    serialize: runtime["serialize"].bind(runtime),
     stringify: runtime["stringify"].bind(runtime),
-    tryToStringify: runtime["tryToStringify"].bind(runtime),
+    preview,
+    readDebugData,
+    snapshotEntries,
+    summarizeTimings,
+    flushAll,
+    findShards,
+    mergeShards,
+    writeMergedShards,
+    renderSource,
+    renderHtml,
   };
-} else if (typeof (global as any).window !== "undefined") {
-  ((global as any).window as any).InlineDebuggerRuntime = InlineDebuggerRuntime;
-  ((global as any).window as any).inlineDebuggerWatch =
-    runtime.inlineDebuggerWatch.bind(runtime);
-  ((global as any).window as any).debugLog = runtime.debugLog.bind(runtime);
-  ((global as any).window as any).initializeRuntime =
-    runtime.initialize.bind(runtime);
-  ((global as any).window as any).setupGlobals =
-    runtime.setupGlobals.bind(runtime);
 }
 
 // Auto-initialize and setup globals when requiring runtime
@@ -0,0 +1,199 @@
+import { DebugData, SamplingPolicy } from "./types";
+
+interface Site {
+  hits: number;
+  dropped: number;
+  // `dropped` when the last summary was written
+  summarized: number;
+  policy: SamplingPolicy;
+  // Kept hits of `last` policies, oldest first
+  held: [string, DebugData][];
+  // Start and number of kept hits of the current `rate` window
+  windowStart: number;
+  windowHits: number;
+  // Fields of the first hit identifying the site in summaries
+  origin: Pick<
+    DebugData,
+    "filePath" | "line" | "column" | "variable" | "label"
+  >;
+  outputFile: string;
+}
+
+/**
+ * What happens to a hit: written now, held back until the sampler is
+ * drained, or dropped
+ */
+export type SampleDecision = "write" | "hold" | "drop";
+
+/**
+ * Describe a policy, e.g. `first 10` or `5 per 1000ms`
+ */
+export function formatPolicy(policy: SamplingPolicy): string {
+  if (policy.first !== undefined) return `first ${policy.first}`;
+  if (policy.last !== undefined) return `last ${policy.last}`;
+  if (policy.every !== undefined) return `every ${policy.every}th`;
+  if (policy.rate !== undefined) {
+    return `${policy.rate} per ${policy.interval ?? 1000}ms`;
+  }
+  return "all";
+}
+
+/**
+ * Check that a policy sets exactly one positive limit
+ */
+export function validatePolicy(policy: SamplingPolicy): void {
+  const limits = (["first", "last", "every", "rate"] as const).filter(
+    (key) => policy[key] !== undefined
+  );
+  if (limits.length !== 1) {
+    throw new Error(
+      `A sampling policy needs exactly one of first, last, every or rate, got ${
+        limits.join(", ") || "none"
+      }.`
+    );
+  }
+
+  for (const key of [...limits, "interval"] as const) {
+    const value = policy[key];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(
+        `Sampling option "${key}" must be a positive integer, got ${value}.`
+      );
+    }
+  }
+}
+
+/**
+ * Counts the hits of every marked site and decides which ones are recorded
+ * Sites are told apart by file and position; hits held back by `last`
+ * policies and summaries of dropped hits come out of `drain`
+ */
+export class Sampler {
+  private sites: Map<string, Site> = new Map();
+
+  constructor(private policy: SamplingPolicy | undefined = undefined) {}
+
+  /**
+   * Change the policy of sites without one of their own
+   */
+  public configure(policy: SamplingPolicy | undefined): void {
+    if (policy) {
+      validatePolicy(policy);
+    }
+    this.policy = policy;
+  }
+
+  /**
+   * Count a hit and stamp its number on the entry
+   * Held entries are kept by reference, so they can still be completed
+   * before the next drain
+   */
+  public sample(
+    entry: DebugData,
+    outputFile: string,
+    time: number = Date.now()
+  ): SampleDecision {
+    const policy = entry.sample ?? this.policy;
+    delete entry.sample;
+
+    const key = `${entry.filePath}:${entry.line}:${entry.column}`;
+    let site = this.sites.get(key);
+    if (!site) {
+      site = {
+        hits: 0,
+        dropped: 0,
+        summarized: 0,
+        policy: policy ?? {},
+        held: [],
+        windowStart: time,
+        windowHits: 0,
+        origin: {
+          filePath: entry.filePath,
+          ...(entry.line !== undefined && { line: entry.line }),
+          ...(entry.column !== undefined && { column: entry.column }),
+          ...(entry.variable !== undefined && { variable: entry.variable }),
+          ...(entry.label !== undefined && { label: entry.label }),
+        },
+        outputFile,
+      };
+      this.sites.set(key, site);
+    }
+    entry.hit = ++site.hits;
+
+    if (!policy) {
+      return "write";
+    }
+    site.policy = policy;
+
+    if (policy.last !== undefined) {
+      site.held.push([outputFile, entry]);
+      if (site.held.length > policy.last) {
+        site.held.shift();
+        site.dropped++;
+      }
+      return "hold";
+    }
+
+    let keep = true;
+    if (policy.first !== undefined) {
+      keep = site.hits <= policy.first;
+    } else if (policy.every !== undefined) {
+      keep = (site.hits - 1) % policy.every === 0;
+    } else if (policy.rate !== undefined) {
+      if (time - site.windowStart >= (policy.interval ?? 1000)) {
+        site.windowStart = time;
+        site.windowHits = 0;
+      }
+      keep = site.windowHits < policy.rate;
+      if (keep) {
+        site.windowHits++;
+      }
+    }
+
+    if (!keep) {
+      site.dropped++;
+    }
+    return keep ? "write" : "drop";
+  }
+
+  /**
+   * Take the hits held back by `last` policies and a `sampling` entry for
+   * every site that dropped hits since the previous drain, with the output
+   * file each one belongs to
+   */
+  public drain(): [string, DebugData][] {
+    const entries: [string, DebugData][] = [];
+
+    for (const site of this.sites.values()) {
+      entries.push(...site.held);
+      site.held = [];
+
+      if (site.dropped === site.summarized) {
+        continue;
+      }
+      site.summarized = site.dropped;
+
+      entries.push([
+        site.outputFile,
+        {
+          type: "sampling",
+          ...site.origin,
+          called: `Dropped ${site.dropped} of ${site.hits} hits (${formatPolicy(
+            site.policy
+          )})`,
+          hits: site.hits,
+          dropped: site.dropped,
+        },
+      ]);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Forget every site, e.g. when the recorded data is cleared
+   */
+  public clear(): void {
+    this.sites.clear();
+  }
+}
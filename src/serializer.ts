@@ -0,0 +1,719 @@
+import { compileRedaction, REDACTED, Redactor } from "./redact";
+import {
+  SerializedProperty,
+  SerializedValue,
+  SerializerOptions,
+} from "./types";
+
+export const DEFAULT_SERIALIZER_OPTIONS: Required<SerializerOptions> = {
+  maxDepth: 8,
+  maxStringLength: 10000,
+  maxCollectionSize: 100,
+  redact: {},
+};
+
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+interface SerializeContext {
+  options: Required<SerializerOptions>;
+  // Objects on the current path mapped to their path, for circular detection
+  seen: Map<object, string>;
+  redactor: Redactor | undefined;
+}
+
+/**
+ * Get the constructor name of an object, `null` for null-prototype objects
+ */
+function getConstructorName(value: object): string | null {
+  const proto = Object.getPrototypeOf(value);
+  if (proto === null) {
+    return null;
+  }
+  const name = proto.constructor?.name;
+  return typeof name === "string" && name ? name : "Object";
+}
+
+/**
+ * Build the path of a child property, e.g. `~.user.tags[0]`
+ */
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${parent}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${parent}.${key}`
+    : `${parent}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Serialize a number, keeping values JSON cannot represent
+ */
+function serializeNumber(value: number): SerializedValue {
+  if (Number.isNaN(value)) {
+    return { type: "number", value: "NaN" };
+  }
+  if (value === Infinity) {
+    return { type: "number", value: "Infinity" };
+  }
+  if (value === -Infinity) {
+    return { type: "number", value: "-Infinity" };
+  }
+  if (Object.is(value, -0)) {
+    return { type: "number", value: "-0" };
+  }
+  return { type: "number", value };
+}
+
+/**
+ * Serialize a string, with secrets hidden and truncated to the configured
+ * length
+ */
+function serializeString(
+  text: string,
+  context: SerializeContext
+): SerializedValue {
+  const value = context.redactor ? context.redactor.text(text) : text;
+  const { maxStringLength } = context.options;
+  if (value.length > maxStringLength) {
+    return {
+      type: "string",
+      value: value.slice(0, maxStringLength),
+      truncated: value.length - maxStringLength,
+    };
+  }
+  return { type: "string", value };
+}
+
+/**
+ * Serialize a function with its source
+ */
+function serializeFunction(
+  value: Function,
+  context: SerializeContext
+): SerializedValue {
+  let source: string;
+  try {
+    source = Function.prototype.toString.call(value);
+  } catch {
+    source = "";
+  }
+
+  const serialized: SerializedValue = {
+    type: "function",
+    name: value.name,
+    kind: /^class\b/.test(source)
+      ? "class"
+      : value.constructor?.name === "AsyncFunction"
+      ? "async"
+      : /^(async\s+)?function\s*\*/.test(source)
+      ? "generator"
+      : "function",
+    source: source.slice(0, context.options.maxStringLength),
+  };
+
+  return serialized;
+}
+
+/**
+ * Read the own properties of an object, flagging accessors instead of
+ * invoking them
+ */
+function serializeProperties(
+  value: object,
+  path: string,
+  depth: number,
+  context: SerializeContext,
+  skip: (key: string) => boolean = () => false
+): { properties: SerializedProperty[]; truncated?: number } {
+  const keys: (string | symbol)[] = [
+    ...Object.keys(value).filter((key) => !skip(key)),
+    ...Object.getOwnPropertySymbols(value).filter(
+      (symbol) =>
+        Object.getOwnPropertyDescriptor(value, symbol)?.enumerable ?? false
+    ),
+  ];
+
+  const { maxCollectionSize } = context.options;
+  const properties: SerializedProperty[] = [];
+
+  for (const key of keys.slice(0, maxCollectionSize)) {
+    const isSymbol = typeof key === "symbol";
+    const name = isSymbol ? key.toString() : key;
+    const property: SerializedProperty = { key: name };
+    if (isSymbol) {
+      property.symbol = true;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (descriptor && (descriptor.get || descriptor.set)) {
+      if (descriptor.get) property.getter = true;
+      if (descriptor.set) property.setter = true;
+    } else {
+      try {
+        property.value = serializeValue(
+          (value as any)[key],
+          childPath(path, name),
+          depth + 1,
+          context,
+          // Rules for keys apply to string keys only
+          isSymbol ? undefined : name
+        );
+      } catch (error) {
+        property.value = {
+          type: "unserializable",
+          message: (error as Error)?.message ?? String(error),
+        };
+      }
+    }
+
+    properties.push(property);
+  }
+
+  return keys.length > maxCollectionSize
+    ? { properties, truncated: keys.length - maxCollectionSize }
+    : { properties };
+}
+
+/**
+ * Serialize any object value (arrays, collections, errors, instances)
+ */
+function serializeObject(
+  value: object,
+  path: string,
+  depth: number,
+  context: SerializeContext
+): SerializedValue {
+  const constructorName = getConstructorName(value);
+  // Tags instead of `instanceof` so values from other realms (vm, Jest) match
+  const tag = Object.prototype.toString.call(value).slice(8, -1);
+
+  if (tag === "Date") {
+    return {
+      type: "date",
+      value: Number.isNaN((value as Date).getTime())
+        ? "Invalid Date"
+        : (value as Date).toISOString(),
+    };
+  }
+  if (tag === "RegExp") {
+    const { source, flags } = value as RegExp;
+    return { type: "regexp", source, flags };
+  }
+  if (tag === "Promise") {
+    return { type: "promise", constructor: constructorName ?? "Promise" };
+  }
+  if (tag === "WeakMap" || tag === "WeakSet") {
+    return { type: "weak", constructor: constructorName ?? tag };
+  }
+  if (tag === "ArrayBuffer") {
+    return {
+      type: "arrayBuffer",
+      byteLength: (value as ArrayBuffer).byteLength,
+    };
+  }
+
+  const { maxDepth, maxCollectionSize } = context.options;
+  if (depth > maxDepth) {
+    return { type: "depth", constructor: constructorName };
+  }
+
+  context.seen.set(value, path);
+  try {
+    if (Array.isArray(value)) {
+      const items = value
+        .slice(0, maxCollectionSize)
+        .map((item, index) =>
+          serializeValue(item, childPath(path, index), depth + 1, context)
+        );
+      const serialized: SerializedValue = {
+        type: "array",
+        length: value.length,
+        items,
+      };
+      if (value.length > maxCollectionSize) {
+        serialized.truncated = value.length - maxCollectionSize;
+      }
+      return serialized;
+    }
+
+    if (ArrayBuffer.isView(value) && tag !== "DataView") {
+      const typed = value as TypedArray;
+      const items = Array.from(
+        typed.subarray(0, maxCollectionSize) as ArrayLike<number | bigint>,
+        (item) => (typeof item === "bigint" ? item.toString() : item)
+      );
+      const serialized: SerializedValue = {
+        type: "typedArray",
+        constructor: constructorName ?? "TypedArray",
+        length: typed.length,
+        items,
+      };
+      if (typed.length > maxCollectionSize) {
+        serialized.truncated = typed.length - maxCollectionSize;
+      }
+      return serialized;
+    }
+
+    if (tag === "Map") {
+      const map = value as Map<unknown, unknown>;
+      const entries: [SerializedValue, SerializedValue][] = [];
+      let index = 0;
+      for (const [key, item] of map) {
+        if (index >= maxCollectionSize) break;
+        entries.push([
+          serializeValue(key, `${path}.<key ${index}>`, depth + 1, context),
+          serializeValue(
+            item,
+            `${path}.<value ${index}>`,
+            depth + 1,
+            context,
+            typeof key === "string" ? key : undefined
+          ),
+        ]);
+        index++;
+      }
+      const serialized: SerializedValue = {
+        type: "map",
+        constructor: constructorName ?? "Map",
+        size: map.size,
+        entries,
+      };
+      if (map.size > maxCollectionSize) {
+        serialized.truncated = map.size - maxCollectionSize;
+      }
+      return serialized;
+    }
+
+    if (tag === "Set") {
+      const set = value as Set<unknown>;
+      const items: SerializedValue[] = [];
+      let index = 0;
+      for (const item of set) {
+        if (index >= maxCollectionSize) break;
+        items.push(
+          serializeValue(item, `${path}.<item ${index}>`, depth + 1, context)
+        );
+        index++;
+      }
+      const serialized: SerializedValue = {
+        type: "set",
+        constructor: constructorName ?? "Set",
+        size: set.size,
+        items,
+      };
+      if (set.size > maxCollectionSize) {
+        serialized.truncated = set.size - maxCollectionSize;
+      }
+      return serialized;
+    }
+
+    if (tag === "Error") {
+      const error = value as Error;
+      const { redactor } = context;
+      const serialized: SerializedValue = {
+        type: "error",
+        name: error.name,
+        message: redactor ? redactor.text(error.message) : error.message,
+        ...serializeProperties(
+          value,
+          path,
+          depth,
+          context,
+          (key) => key === "cause"
+        ),
+      };
+      if (typeof error.stack === "string") {
+        serialized.stack = redactor ? redactor.text(error.stack) : error.stack;
+      }
+      if ("cause" in error) {
+        serialized.cause = serializeValue(
+          (error as { cause?: unknown }).cause,
+          childPath(path, "cause"),
+          depth + 1,
+          context
+        );
+      }
+      return serialized;
+    }
+
+    return {
+      type: "object",
+      constructor: constructorName,
+      ...serializeProperties(value, path, depth, context),
+    };
+  } finally {
+    context.seen.delete(value);
+  }
+}
+
+/**
+ * Serialize a value at a given path and depth, `key` is the property or map
+ * key it is stored under
+ */
+function serializeValue(
+  value: unknown,
+  path: string,
+  depth: number,
+  context: SerializeContext,
+  key?: string
+): SerializedValue {
+  if (context.redactor?.hides(value, key, path)) {
+    return { type: "redacted" };
+  }
+
+  switch (typeof value) {
+    case "undefined":
+      return { type: "undefined" };
+    case "boolean":
+      return { type: "boolean", value };
+    case "number":
+      return serializeNumber(value);
+    case "bigint":
+      return { type: "bigint", value: value.toString() };
+    case "string":
+      return serializeString(value, context);
+    case "symbol":
+      return { type: "symbol", description: value.description ?? "" };
+    case "function":
+      return serializeFunction(value, context);
+  }
+
+  if (value === null) {
+    return { type: "null" };
+  }
+
+  const circularPath = context.seen.get(value as object);
+  if (circularPath !== undefined) {
+    return { type: "circular", path: circularPath };
+  }
+
+  return serializeObject(value as object, path, depth, context);
+}
+
+/**
+ * Serialize any value into a typed tree
+ * `key` is the name the value is known under, e.g. the watched variable,
+ * which redaction rules for keys apply to
+ */
+export function serialize(
+  value: unknown,
+  options: SerializerOptions = {},
+  key?: string
+): SerializedValue {
+  const merged = { ...DEFAULT_SERIALIZER_OPTIONS, ...options };
+  const context: SerializeContext = {
+    options: merged,
+    seen: new Map(),
+    redactor: undefined,
+  };
+
+  try {
+    context.redactor = merged.redact
+      ? compileRedaction(merged.redact)
+      : undefined;
+    return serializeValue(value, "~", 0, context, key);
+  } catch (error) {
+    return {
+      type: "unserializable",
+      message: (error as Error)?.message ?? String(error),
+    };
+  }
+}
+
+/**
+ * Apply redaction rules to a tree serialized elsewhere, e.g. by the browser
+ * runtime, the way `serialize` applies them to values
+ * Custom rules see the plain data of the tree instead of the original value
+ */
+export function redactTree(
+  value: SerializedValue,
+  redactor: Redactor,
+  key?: string,
+  path: string = "~"
+): SerializedValue {
+  if (
+    value.type !== "redacted" &&
+    redactor.hides(toPlain(value), key, path)
+  ) {
+    return { type: "redacted" };
+  }
+
+  switch (value.type) {
+    case "string":
+      return { ...value, value: redactor.text(value.value) };
+    case "array":
+      return {
+        ...value,
+        items: value.items.map((item, index) =>
+          redactTree(item, redactor, undefined, childPath(path, index))
+        ),
+      };
+    case "set":
+      return {
+        ...value,
+        items: value.items.map((item, index) =>
+          redactTree(item, redactor, undefined, `${path}.<item ${index}>`)
+        ),
+      };
+    case "map":
+      return {
+        ...value,
+        entries: value.entries.map(([entryKey, item], index) => [
+          redactTree(entryKey, redactor, undefined, `${path}.<key ${index}>`),
+          redactTree(
+            item,
+            redactor,
+            entryKey.type === "string" ? entryKey.value : undefined,
+            `${path}.<value ${index}>`
+          ),
+        ]),
+      };
+    case "error":
+      return {
+        ...value,
+        message: redactor.text(value.message),
+        ...(value.stack !== undefined && {
+          stack: redactor.text(value.stack),
+        }),
+        ...(value.cause && {
+          cause: redactTree(
+            value.cause,
+            redactor,
+            undefined,
+            childPath(path, "cause")
+          ),
+        }),
+        properties: redactProperties(value.properties, redactor, path),
+      };
+    case "object":
+      return {
+        ...value,
+        properties: redactProperties(value.properties, redactor, path),
+      };
+    default:
+      return value;
+  }
+}
+
+/**
+ * Apply redaction rules to serialized properties, rules for keys apply to
+ * string keys only
+ */
+function redactProperties(
+  properties: SerializedProperty[],
+  redactor: Redactor,
+  path: string
+): SerializedProperty[] {
+  return properties.map((property) =>
+    property.value
+      ? {
+          ...property,
+          value: redactTree(
+            property.value,
+            redactor,
+            property.symbol ? undefined : property.key,
+            childPath(path, property.key)
+          ),
+        }
+      : property
+  );
+}
+
+/**
+ * Format a property key for previews
+ */
+function previewKey(property: SerializedProperty): string {
+  if (property.symbol || /^[A-Za-z_$][\w$]*$/.test(property.key)) {
+    return property.symbol ? `[${property.key}]` : property.key;
+  }
+  return JSON.stringify(property.key);
+}
+
+/**
+ * Format a list of preview parts inside brackets
+ */
+function previewList(
+  parts: string[],
+  truncated: number | undefined,
+  open: string,
+  close: string
+): string {
+  if (truncated) {
+    parts.push(`... ${truncated} more`);
+  }
+  if (!parts.length) {
+    return `${open}${close}`;
+  }
+  return open === "["
+    ? `${open}${parts.join(", ")}${close}`
+    : `${open} ${parts.join(", ")} ${close}`;
+}
+
+/**
+ * Render a serialized tree as a single-line, human-readable string
+ */
+export function preview(value: SerializedValue): string {
+  switch (value.type) {
+    case "undefined":
+    case "null":
+      return value.type;
+    case "boolean":
+    case "number":
+      return String(value.value);
+    case "bigint":
+      return `${value.value}n`;
+    case "string":
+      return value.truncated
+        ? `${JSON.stringify(value.value)}... (${value.truncated} more)`
+        : JSON.stringify(value.value);
+    case "symbol":
+      return `Symbol(${value.description})`;
+    case "function":
+      return value.kind === "class"
+        ? `[class ${value.name || "(anonymous)"}]`
+        : `[Function: ${value.name || "(anonymous)"}]`;
+    case "date":
+      return value.value;
+    case "regexp":
+      return `/${value.source}/${value.flags}`;
+    case "promise":
+      return `${value.constructor} { <pending> }`;
+    case "weak":
+      return `${value.constructor} { <items unknown> }`;
+    case "arrayBuffer":
+      return `ArrayBuffer { byteLength: ${value.byteLength} }`;
+    case "circular":
+      return `[Circular ${value.path}]`;
+    case "depth":
+      return `[${value.constructor ?? "Object"}]`;
+    case "unserializable":
+      return `[Unserializable: ${value.message}]`;
+    case "redacted":
+      return REDACTED;
+    case "array":
+      return previewList(value.items.map(preview), value.truncated, "[", "]");
+    case "typedArray":
+      return `${value.constructor}(${value.length}) ${previewList(
+        value.items.map(String),
+        value.truncated,
+        "[",
+        "]"
+      )}`;
+    case "map":
+      return `${value.constructor}(${value.size}) ${previewList(
+        value.entries.map(
+          ([key, item]) => `${preview(key)} => ${preview(item)}`
+        ),
+        value.truncated,
+        "{",
+        "}"
+      )}`;
+    case "set":
+      return `${value.constructor}(${value.size}) ${previewList(
+        value.items.map(preview),
+        value.truncated,
+        "{",
+        "}"
+      )}`;
+    case "error": {
+      const head = `${value.name}: ${value.message}`;
+      return value.properties.length
+        ? `${head} ${previewProperties(value.properties, value.truncated)}`
+        : head;
+    }
+    case "object": {
+      const body = previewProperties(value.properties, value.truncated);
+      if (value.constructor === "Object") {
+        return body;
+      }
+      return `${value.constructor ?? "[Object: null prototype]"} ${body}`;
+    }
+  }
+}
+
+/**
+ * Render object properties for previews
+ */
+function previewProperties(
+  properties: SerializedProperty[],
+  truncated: number | undefined
+): string {
+  return previewList(
+    properties.map((property) => {
+      const value = property.value
+        ? preview(property.value)
+        : property.getter && property.setter
+        ? "[Getter/Setter]"
+        : property.getter
+        ? "[Getter]"
+        : "[Setter]";
+      return `${previewKey(property)}: ${value}`;
+    }),
+    truncated,
+    "{",
+    "}"
+  );
+}
+
+/**
+ * Convert a serialized tree back into plain JSON-compatible data
+ * Values JSON cannot hold, like functions or dates, become their preview
+ */
+export function toPlain(value: SerializedValue): unknown {
+  switch (value.type) {
+    case "undefined":
+    case "null":
+      return null;
+    case "boolean":
+    case "number":
+    case "string":
+      return value.value;
+    case "array":
+    case "set":
+      return value.items.map(toPlain);
+    case "typedArray":
+      return value.items;
+    case "map":
+      return Object.fromEntries(
+        value.entries.map(([key, item]) => [
+          key.type === "string" ? key.value : preview(key),
+          toPlain(item),
+        ])
+      );
+    case "error":
+      return {
+        name: value.name,
+        message: value.message,
+        ...plainProperties(value.properties),
+      };
+    case "object":
+      return plainProperties(value.properties);
+    default:
+      return preview(value);
+  }
+}
+
+/**
+ * Convert serialized properties into a plain object
+ */
+function plainProperties(
+  properties: SerializedProperty[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    properties.map((property) => [
+      property.symbol ? `[${property.key}]` : property.key,
+      property.value ? toPlain(property.value) : "[Getter/Setter]",
+    ])
+  );
+}
@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as path from "path";
+import { compareEntries } from "./snapshot";
+import { readDebugData, writeFileAtomic } from "./storage";
+import { DebugData, MergeOptions, ShardMode } from "./types";
+
+/**
+ * Jest worker id of the current process, if running inside Jest
+ */
+export function getWorkerId(): number | undefined {
+  const workerId = process.env["JEST_WORKER_ID"];
+  return workerId ? Number(workerId) : undefined;
+}
+
+/**
+ * Check whether output should be sharded for the current process
+ * `auto` shards inside Jest workers, where several processes share one cwd
+ */
+export function isSharded(mode: ShardMode): boolean {
+  return mode === "auto" ? getWorkerId() !== undefined : mode;
+}
+
+/**
+ * Key identifying the shard of the current process
+ */
+export function getShardKey(): string {
+  const workerId = getWorkerId();
+  return workerId !== undefined ? `worker-${workerId}` : `pid-${process.pid}`;
+}
+
+/**
+ * Check whether a shard was started by this process, e.g. by an earlier test
+ * file of the same Jest worker, which each get their own runtime
+ */
+export function isOwnShard(shardPath: string): boolean {
+  try {
+    return readDebugData(shardPath)[0]?.pid === process.pid;
+  } catch {
+    // Unreadable shards are replaced like those of earlier runs
+    return false;
+  }
+}
+
+/**
+ * Path of a shard, e.g. `.debug.data.json` -> `.debug.data.worker-1.json`
+ */
+export function getShardPath(outputPath: string, key: string): string {
+  const { dir, name, ext } = path.parse(outputPath);
+  return path.join(dir, `${name}.${key}${ext}`);
+}
+
+/**
+ * Find every shard written for an output file
+ */
+export function findShards(outputPath: string): string[] {
+  const { dir, name, ext } = path.parse(path.resolve(outputPath));
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const prefix = `${name}.`;
+  const shardKey = /^(worker|pid)-\d+$/;
+
+  return fs
+    .readdirSync(dir)
+    .filter(
+      (file) =>
+        file.startsWith(prefix) &&
+        file.endsWith(ext) &&
+        shardKey.test(file.slice(prefix.length, file.length - ext.length))
+    )
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+/**
+ * Read shard files into one ordered list
+ */
+function readShards(shards: string[]): DebugData[] {
+  return shards.flatMap((shard) => readDebugData(shard)).sort(compareEntries);
+}
+
+/**
+ * Combine all shards of an output file into one ordered list
+ */
+export function mergeShards(outputPath: string): DebugData[] {
+  return readShards(findShards(outputPath));
+}
+
+/**
+ * Merge all shards of an output file and write the result atomically
+ */
+export function writeMergedShards(
+  outputPath: string,
+  options: MergeOptions = {}
+): { shards: string[]; entries: number; out: string } {
+  const shards = findShards(outputPath);
+  const entries = readShards(shards);
+  const out = path.resolve(options.out ?? outputPath);
+  if (!shards.length) {
+    // Keep an output file written without shards
+    return { shards, entries: 0, out };
+  }
+
+  writeFileAtomic(out, JSON.stringify(entries, null, 2));
+
+  if (options.clean) {
+    for (const shard of shards) {
+      if (shard !== out) {
+        fs.unlinkSync(shard);
+      }
+    }
+  }
+
+  return { shards, entries: entries.length, out };
+}
+
+/**
+ * Read an output file, falling back to merging its shards when it is missing
+ */
+export function readOutput(outputPath: string): DebugData[] {
+  const resolved = path.resolve(outputPath);
+  return fs.existsSync(resolved)
+    ? readDebugData(resolved)
+    : mergeShards(resolved);
+}
@@ -0,0 +1,149 @@
+import {
+  DebugData,
+  SerializedValue,
+  SnapshotEntry,
+  SnapshotOptions,
+} from "./types";
+
+// Fields that differ from one run to the next
+const VOLATILE_FIELDS = [
+  "pid",
+  "worker",
+  "timestamp",
+  "seq",
+  "start",
+  "duration",
+] as const;
+
+/**
+ * Order entries from several processes by time, then process and sequence
+ */
+export function compareEntries(a: DebugData, b: DebugData): number {
+  return (
+    (a.timestamp ?? 0) - (b.timestamp ?? 0) ||
+    (a.pid ?? 0) - (b.pid ?? 0) ||
+    (a.seq ?? 0) - (b.seq ?? 0)
+  );
+}
+
+/**
+ * Path relative to `root` with `/` separators, paths outside of it are kept
+ */
+function relativePath(filePath: string, root: string | undefined): string {
+  const base = root?.replace(/[\\/]+$/, "");
+  if (
+    !base ||
+    !filePath.startsWith(base) ||
+    !/[\\/]/.test(filePath.charAt(base.length))
+  ) {
+    return filePath;
+  }
+  return filePath.slice(base.length + 1).replace(/\\/g, "/");
+}
+
+/**
+ * Replace the stacks of errors in a value, they hold absolute paths and
+ * positions of the runtime
+ */
+function stripStacks(value: SerializedValue): SerializedValue {
+  switch (value.type) {
+    case "error":
+      return {
+        ...value,
+        ...(value.stack !== undefined && { stack: "[stack]" }),
+        ...(value.cause && { cause: stripStacks(value.cause) }),
+        properties: value.properties.map(stripPropertyStacks),
+      };
+    case "object":
+      return {
+        ...value,
+        properties: value.properties.map(stripPropertyStacks),
+      };
+    case "array":
+    case "set":
+      return { ...value, items: value.items.map(stripStacks) };
+    case "map":
+      return {
+        ...value,
+        entries: value.entries.map(([key, item]) => [
+          stripStacks(key),
+          stripStacks(item),
+        ]),
+      };
+    default:
+      return value;
+  }
+}
+
+function stripPropertyStacks<T extends { value?: SerializedValue }>(
+  property: T
+): T {
+  return property.value
+    ? { ...property, value: stripStacks(property.value) }
+    : property;
+}
+
+/**
+ * Numbers ids in the order they first appear, from 1
+ */
+function renumber(): (id: number | undefined) => number | undefined {
+  const ids = new Map<number, number>();
+  return (id) => {
+    if (id === undefined) {
+      return undefined;
+    }
+    if (!ids.has(id)) {
+      ids.set(id, ids.size + 1);
+    }
+    return ids.get(id);
+  };
+}
+
+/**
+ * Entries as they should be compared in tests: ordered by when they were
+ * recorded, without timings and process details, with paths relative to the
+ * project and ids of calls and spans numbered from 1, so they are the same on
+ * every run and machine
+ */
+export function snapshotEntries(
+  entries: DebugData[],
+  options: SnapshotOptions = {}
+): SnapshotEntry[] {
+  const root =
+    "root" in options
+      ? options.root
+      : typeof process !== "undefined"
+      ? process.cwd()
+      : undefined;
+  const callId = renumber();
+  const contextId = renumber();
+
+  return [...entries].sort(compareEntries).map((entry) => {
+    const item: Record<string, unknown> = { ...entry };
+    for (const field of VOLATILE_FIELDS) {
+      delete item[field];
+    }
+    Object.assign(item, {
+      filePath: relativePath(entry.filePath, root),
+      testPath: entry.testPath && relativePath(entry.testPath, root),
+      stack: entry.stack?.map((frame) => ({
+        ...frame,
+        filePath: relativePath(frame.filePath, root),
+      })),
+      value: entry.value && stripStacks(entry.value),
+      values: entry.values?.map(stripStacks),
+      receiver: entry.receiver && stripStacks(entry.receiver),
+      args: entry.args && stripStacks(entry.args),
+      callId: callId(entry.callId),
+      parentCallId: callId(entry.parentCallId),
+      contextId: contextId(entry.contextId),
+      parentContextId: contextId(entry.parentContextId),
+    });
+    for (const key of Object.keys(item)) {
+      if (item[key] === undefined) {
+        delete item[key];
+      }
+    }
+    return item as SnapshotEntry;
+  });
+}
@@ -0,0 +1,87 @@
+import { originalPositionFor, TraceMap } from "@jridgewell/trace-mapping";
+import * as path from "path";
+import { SourcePosition } from "./types";
+
+/**
+ * Create a lookup for a raw source map, or `undefined` if it is unusable
+ */
+export function createSourceMap(raw: unknown): TraceMap | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return new TraceMap(raw as ConstructorParameters<typeof TraceMap>[0]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map a position in generated code back to the original source
+ * Lines are 1-based and columns 0-based, as in Babel and source maps
+ */
+export function mapPosition(
+  map: TraceMap,
+  line: number,
+  column: number,
+  generatedFile: string
+): { source: string; line: number; column: number } | undefined {
+  const original = originalPositionFor(map, { line, column });
+  if (original.line === null || original.column === null) {
+    return undefined;
+  }
+
+  const source = original.source
+    ? path.isAbsolute(original.source) || /^\w+:\/\//.test(original.source)
+      ? original.source.replace(/^file:\/\//, "")
+      : path.resolve(path.dirname(generatedFile), original.source)
+    : generatedFile;
+
+  return { source, line: original.line, column: original.column };
+}
+
+/**
+ * Resolve the original position of a node location
+ * Columns in the result are 1-based, like editors show them
+ */
+export function resolvePosition(
+  loc: {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+  },
+  filePath: string,
+  map?: TraceMap
+): SourcePosition {
+  const position: SourcePosition = {
+    filePath,
+    line: loc.start.line,
+    column: loc.start.column + 1,
+    endLine: loc.end.line,
+    endColumn: loc.end.column + 1,
+  };
+
+  if (!map) {
+    return position;
+  }
+
+  const start = mapPosition(map, loc.start.line, loc.start.column, filePath);
+  if (!start) {
+    return position;
+  }
+
+  position.filePath = start.source;
+  position.line = start.line;
+  position.column = start.column + 1;
+
+  // The end only makes sense when it maps into the same original file
+  const end = mapPosition(map, loc.end.line, loc.end.column, filePath);
+  if (end && end.source === start.source) {
+    position.endLine = end.line;
+    position.endColumn = end.column + 1;
+  } else {
+    position.endLine = position.line;
+    position.endColumn = position.column;
+  }
+
+  return position;
+}
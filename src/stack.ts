@@ -0,0 +1,78 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TraceMap } from "@jridgewell/trace-mapping";
+import { readStack } from "./frames";
+import { createSourceMap, mapPosition } from "./source-map";
+import { StackFrame } from "./types";
+
+export { DEFAULT_STACK_DEPTH, parseFrame, parseStack } from "./frames";
+
+// Source maps of generated files, `undefined` for files without one
+const sourceMaps: Map<string, TraceMap | undefined> = new Map();
+
+/**
+ * Load the source map a generated file points to with `sourceMappingURL`,
+ * inline or next to the file
+ */
+function loadSourceMap(filePath: string): TraceMap | undefined {
+  if (sourceMaps.has(filePath)) {
+    return sourceMaps.get(filePath);
+  }
+
+  let map: TraceMap | undefined;
+  try {
+    const code = fs.readFileSync(filePath, "utf8");
+    const url = code.match(/\/\/[#@] sourceMappingURL=(\S+)\s*$/)?.[1];
+    if (url) {
+      const inline = url.match(/^data:application\/json;[^,]*base64,(.*)$/);
+      map = createSourceMap(
+        JSON.parse(
+          inline
+            ? Buffer.from(inline[1] as string, "base64").toString("utf8")
+            : fs.readFileSync(path.resolve(path.dirname(filePath), url), "utf8")
+        )
+      );
+    }
+  } catch {
+    // Files that cannot be read or carry a broken map stay unmapped
+  }
+
+  sourceMaps.set(filePath, map);
+  return map;
+}
+
+/**
+ * Map a frame of generated code back to the original source
+ * Frames of files without a source map, or already mapped by a tool such as
+ * `source-map-support`, are returned as they are
+ */
+export function mapFrame(frame: StackFrame): StackFrame {
+  const map = loadSourceMap(frame.filePath);
+  if (!map) {
+    return frame;
+  }
+  // Stack columns are 1-based, source map columns 0-based
+  const original = mapPosition(
+    map,
+    frame.line,
+    frame.column - 1,
+    frame.filePath
+  );
+  if (!original) {
+    return frame;
+  }
+  return {
+    ...frame,
+    filePath: original.source,
+    line: original.line,
+    column: original.column + 1,
+  };
+}
+
+/**
+ * Capture the frames leading to the call of `below`, mapped to the original
+ * sources, without frames of Node and of dependencies
+ */
+export function captureStack(depth: number, below: Function): StackFrame[] {
+  return readStack(depth, below).map(mapFrame);
+}
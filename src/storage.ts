@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import { DebugData, StorageFormat, StorageOptions } from "./types";
+
+export const DEFAULT_STORAGE_OPTIONS: Required<StorageOptions> = {
+  format: "json",
+  flushInterval: 1000,
+  flushSize: 1000,
+  append: false,
+};
+
+// Closing bytes of a JSON array file, overwritten by the next append
+const JSON_TAIL = "\n]\n";
+
+const SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+const storages = new Set<DebugStorage>();
+const flushHooks = new Set<() => void>();
+
+// Process hooks are shared by every copy of this module loaded in the
+// process, e.g. the import injected by the plugin and one from `setupFiles`,
+// so that only one of them handles and re-raises a signal
+const PROCESS_HOOKS = Symbol.for("babel-plugin-inline-debugger.processHooks");
+
+interface ProcessHooks {
+  // `flushAll` of each copy of this module
+  flushers: Set<() => void>;
+}
+
+/**
+ * Run a callback before every storage is flushed on exit, e.g. to append
+ * entries held back until then
+ */
+export function addFlushHook(hook: () => void): void {
+  flushHooks.add(hook);
+  installProcessHooks();
+}
+
+/**
+ * Flush every open storage
+ */
+export function flushAll(): void {
+  for (const hook of flushHooks) {
+    try {
+      hook();
+    } catch {
+      // Same as failed writes below
+    }
+  }
+  for (const storage of storages) {
+    try {
+      storage.flush();
+    } catch {
+      // Never let a failed write mask the reason the process is exiting
+    }
+  }
+}
+
+/**
+ * Flush on exit, termination signals and uncaught exceptions
+ * Installed once per process for all storages of every copy of this module
+ */
+function installProcessHooks(): void {
+  if (typeof process === "undefined" || !process.on) {
+    return;
+  }
+  const registry = globalThis as { [PROCESS_HOOKS]?: ProcessHooks };
+  let hooks = registry[PROCESS_HOOKS];
+  if (!hooks) {
+    const flushers = new Set<() => void>();
+    hooks = registry[PROCESS_HOOKS] = { flushers };
+    const flushEvery = () => flushers.forEach((flush) => flush());
+
+    process.on("exit", flushEvery);
+    process.on("uncaughtExceptionMonitor", flushEvery);
+
+    for (const signal of SIGNALS) {
+      const onSignal = () => {
+        flushEvery();
+        // Re-raise when nobody else handles the signal so the process still
+        // exits
+        if (process.listenerCount(signal) === 1) {
+          process.removeListener(signal, onSignal);
+          process.kill(process.pid, signal);
+        }
+      };
+      process.on(signal, onSignal);
+    }
+  }
+  hooks.flushers.add(flushAll);
+}
+
+/**
+ * Write a whole file atomically through a temporary file and a rename
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Buffered, append-only writer for one output file
+ * Entries are kept in memory and written in batches, either when the buffer
+ * reaches `flushSize`, after `flushInterval` ms, or when the process exits
+ */
+export class DebugStorage {
+  private buffer: string[] = [];
+  private written: number = 0;
+  private firstWrite: boolean = true;
+  private size: number = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private options: Required<StorageOptions>;
+
+  constructor(public readonly filePath: string, options: StorageOptions = {}) {
+    this.options = { ...DEFAULT_STORAGE_OPTIONS, ...options };
+    storages.add(this);
+    installProcessHooks();
+  }
+
+  /**
+   * Change settings, rewriting what was already written if the format changes
+   */
+  public configure(options: StorageOptions): void {
+    this.flush();
+    const previousFormat = this.options.format;
+    this.options = { ...this.options, ...options };
+
+    if (this.options.format !== previousFormat && this.written) {
+      this.buffer = readDebugData(this.filePath).map((entry) =>
+        JSON.stringify(entry)
+      );
+      this.written = 0;
+      this.flush();
+    }
+  }
+
+  /**
+   * Queue an entry for writing
+   */
+  public append(entry: DebugData): void {
+    this.buffer.push(JSON.stringify(entry));
+
+    if (this.buffer.length >= this.options.flushSize) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Write buffered entries to disk
+   */
+  public flush(): void {
+    this.cancelFlush();
+    if (!this.buffer.length) {
+      return;
+    }
+
+    let entries = this.buffer;
+    this.buffer = [];
+    if (this.firstWrite && this.options.append) {
+      // Entries written by earlier storages of this file are kept
+      entries = [
+        ...readDebugData(this.filePath).map((entry) => JSON.stringify(entry)),
+        ...entries,
+      ];
+    }
+    this.firstWrite = false;
+
+    if (this.options.format === "ndjson") {
+      this.appendNdjson(entries);
+    } else {
+      this.appendJson(entries);
+    }
+    this.written += entries.length;
+  }
+
+  /**
+   * Drop buffered entries and remove the output file
+   */
+  public clear(): void {
+    this.cancelFlush();
+    this.buffer = [];
+    this.written = 0;
+    this.size = 0;
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+
+  /**
+   * Stop tracking this storage after flushing it
+   */
+  public close(): void {
+    this.flush();
+    storages.delete(this);
+  }
+
+  /**
+   * Append entries as newline-delimited JSON
+   */
+  private appendNdjson(entries: string[]): void {
+    const chunk = `${entries.join("\n")}\n`;
+    if (this.written === 0 || !fs.existsSync(this.filePath)) {
+      // First write of this process replaces output of earlier runs
+      writeFileAtomic(this.filePath, chunk);
+    } else {
+      fs.appendFileSync(this.filePath, chunk);
+    }
+  }
+
+  /**
+   * Append entries to a JSON array by overwriting its closing bracket
+   */
+  private appendJson(entries: string[]): void {
+    if (this.written === 0 || !fs.existsSync(this.filePath)) {
+      const content = `[\n${entries.join(",\n")}${JSON_TAIL}`;
+      writeFileAtomic(this.filePath, content);
+      this.size = Buffer.byteLength(content);
+      return;
+    }
+
+    const chunk = `,\n${entries.join(",\n")}${JSON_TAIL}`;
+    const fd = fs.openSync(this.filePath, "r+");
+    try {
+      fs.writeSync(fd, chunk, this.size - JSON_TAIL.length);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.size += Buffer.byteLength(chunk) - JSON_TAIL.length;
+  }
+
+  /**
+   * Flush after `flushInterval` ms without keeping the process alive
+   */
+  private scheduleFlush(): void {
+    if (this.timer || this.options.flushInterval <= 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, this.options.flushInterval);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Cancel a scheduled flush
+   */
+  private cancelFlush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Detect the format of output file contents
+ */
+export function detectFormat(content: string): StorageFormat {
+  return content.trimStart().startsWith("[") ? "json" : "ndjson";
+}
+
+/**
+ * Parse output file contents in either the JSON array or NDJSON format
+ */
+export function parseDebugData(content: string): DebugData[] {
+  if (!content.trim()) {
+    return [];
+  }
+  if (detectFormat(content) === "json") {
+    return JSON.parse(content);
+  }
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Read an output file in either the JSON array or NDJSON format
+ */
+export function readDebugData(filePath: string): DebugData[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return parseDebugData(fs.readFileSync(filePath, "utf8"));
+}
@@ -0,0 +1,115 @@
+import { DebugData, EntryQuery } from "./types";
+
+export const DEFAULT_MEMORY_LIMIT = 10000;
+
+/**
+ * Match a value against a string, which must be equal, or a pattern
+ */
+function matches(
+  value: string | undefined,
+  expected: string | RegExp
+): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  return typeof expected === "string"
+    ? value === expected
+    : expected.test(value);
+}
+
+/**
+ * Match a path against another one, or the end of it, or a pattern
+ */
+function matchesPath(
+  filePath: string | undefined,
+  expected: string | RegExp
+): boolean {
+  if (filePath === undefined || typeof expected !== "string") {
+    return matches(filePath, expected);
+  }
+  const actual = filePath.replace(/\\/g, "/");
+  const wanted = expected.replace(/\\/g, "/").replace(/^\.\//, "");
+  return actual === wanted || actual.endsWith(`/${wanted}`);
+}
+
+/**
+ * Check an entry against every field set in a query
+ */
+export function matchesQuery(entry: DebugData, query: EntryQuery): boolean {
+  const { file, line, type, variable, label, since, until, test, testPath } =
+    query;
+  const timestamp = entry.timestamp ?? 0;
+  return (
+    (file === undefined || matchesPath(entry.filePath, file)) &&
+    (line === undefined ||
+      (entry.line !== undefined &&
+        entry.line <= line &&
+        line <= (entry.endLine ?? entry.line))) &&
+    (type === undefined ||
+      (Array.isArray(type)
+        ? type.includes(entry.type)
+        : type === entry.type)) &&
+    (variable === undefined || matches(entry.variable, variable)) &&
+    (label === undefined || matches(entry.label, label)) &&
+    (since === undefined || timestamp >= Number(since)) &&
+    (until === undefined || timestamp <= Number(until)) &&
+    (test === undefined || matches(entry.testName, test)) &&
+    (testPath === undefined || matchesPath(entry.testPath, testPath))
+  );
+}
+
+/**
+ * Entries of each output file kept in memory, in the order they were stored,
+ * so they can be read without parsing the files
+ * Beyond `limit` entries per file the oldest are dropped
+ */
+export class EntryStore {
+  private files: Map<string, DebugData[]> = new Map();
+
+  constructor(private limit: number = DEFAULT_MEMORY_LIMIT) {}
+
+  /**
+   * Change how many entries of each file are kept
+   */
+  public configure(limit: number): void {
+    this.limit = limit;
+  }
+
+  public add(outputFile: string, entry: DebugData): void {
+    const entries = this.files.get(outputFile) ?? [];
+    entries.push(entry);
+    // Dropped in chunks, not one entry at a time
+    if (entries.length >= this.limit * 2) {
+      entries.splice(0, entries.length - this.limit);
+    }
+    this.files.set(outputFile, entries);
+  }
+
+  /**
+   * Entries of an output file matching a query
+   */
+  public query(outputFile: string, query: EntryQuery = {}): DebugData[] {
+    const entries = this.files.get(outputFile) ?? [];
+    return entries
+      .slice(Math.max(entries.length - this.limit, 0))
+      .filter((entry) => matchesQuery(entry, query));
+  }
+
+  /**
+   * Output files entries were kept for
+   */
+  public outputFiles(): string[] {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * Forget the entries of one output file, or of all of them
+   */
+  public clear(outputFile?: string): void {
+    if (outputFile === undefined) {
+      this.files.clear();
+    } else {
+      this.files.delete(outputFile);
+    }
+  }
+}
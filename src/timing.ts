@@ -0,0 +1,42 @@
+import { DebugData, TimingStats } from "./types";
+
+/**
+ * Aggregate the durations of timed entries per site, in order of first
+ * appearance
+ * Sites are told apart by file and position; untimed entries, including calls
+ * that only record their duration, are skipped
+ */
+export function summarizeTimings(entries: DebugData[]): TimingStats[] {
+  const sites: Map<string, { origin: DebugData; durations: number[] }> =
+    new Map();
+
+  for (const entry of entries) {
+    if (entry.start === undefined || entry.duration === undefined) {
+      continue;
+    }
+    const key = `${entry.filePath}:${entry.line}:${entry.column}`;
+    let site = sites.get(key);
+    if (!site) {
+      site = { origin: entry, durations: [] };
+      sites.set(key, site);
+    }
+    site.durations.push(entry.duration);
+  }
+
+  return [...sites.values()].map(({ origin, durations }) => {
+    const sorted = [...durations].sort((a, b) => a - b);
+    const count = sorted.length;
+    return {
+      filePath: origin.filePath,
+      ...(origin.line !== undefined && { line: origin.line }),
+      ...(origin.column !== undefined && { column: origin.column }),
+      ...(origin.variable !== undefined && { variable: origin.variable }),
+      ...(origin.label !== undefined && { label: origin.label }),
+      count,
+      min: sorted[0] as number,
+      max: sorted[count - 1] as number,
+      mean: sorted.reduce((sum, duration) => sum + duration, 0) / count,
+      p95: sorted[Math.ceil(0.95 * count) - 1] as number,
+    };
+  });
+}
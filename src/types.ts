@@ -2,39 +2,487 @@
  * Type definitions for Inline Debugger
  */
 
+export type DebugDataType =
+  | 'variable'
+  | 'expression'
+  | 'log'
+  | 'call'
+  | 'condition'
+  | 'error'
+  | 'sampling'
+  | 'span'
+  | 'await'
+  | 'return'
+  | 'throw'
+  | 'function'
+  | 'arrow'
+  | 'method'
+  | 'objectMethod';
+
 export interface DebugData {
-  type: 'variable' | 'expression' | 'log' | 'error';
+  type: DebugDataType;
   variable?: string;
+  // Where a destructured name took its value from, e.g. `user.id`
+  binding?: string;
   called: any;
   line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
   filePath: string;
   prefix?: string;
   hide?: boolean;
+  outputFile?: string;
+  value?: SerializedValue;
+  values?: SerializedValue[];
+  // Object a watched method was called on, after the call
+  receiver?: SerializedValue;
+  // Options of the marker comment, see `Marker`
+  label?: string;
+  projection?: string;
+  detail?: MarkerDetail;
+  format?: MarkerFormat;
+  // Evaluates the projection, passed by the plugin and never stored
+  project?: ($: any) => unknown;
+  // Condition of a `//? if` marker, and its evaluation against the value,
+  // which is passed by the plugin and never stored
+  condition?: string;
+  when?: ($: any) => unknown;
+  pid?: number;
+  worker?: number;
+  timestamp?: number;
+  seq?: number;
+  // Calls of marked functions: parameter values, class of `this` and time
+  // until the function returned or its promise settled, in ms
+  args?: SerializedValue;
+  thisClass?: string;
+  duration?: number;
+  // Timed entries: wall clock time in ms when evaluation started, the
+  // `time` flag of the marker is never stored
+  start?: number;
+  time?: boolean;
+  // Callers of the code that recorded the entry, innermost first, and the
+  // depth to capture them at, which is passed by the plugin and never stored
+  stack?: StackFrame[];
+  captureStack?: true | number;
+  callId?: number;
+  // Call of a marked function that was running when the entry was recorded
+  parentCallId?: number;
+  // Span of `trace` the entry was recorded in, and the span that one was
+  // opened in; `span` entries carry their own id and their parent's
+  contextId?: number;
+  parentContextId?: number;
+  // Async context the entry was recorded in when `asyncContext` is on, and
+  // the context that scheduled it; each callback, timer and `await`
+  // continuation that records has its own
+  asyncId?: number;
+  parentAsyncId?: number;
+  // Jest test file and full name of the test that recorded the entry, set by
+  // the `jest-setup` module; entries of hooks outside of tests have no name
+  testPath?: string;
+  testName?: string;
+  // Name of the session the entry was recorded in
+  session?: string;
+  // Reads `this` of a marked call, passed by the plugin and never stored
+  self?: () => unknown;
+  // Number of the hit at this site, counting hits that were not recorded
+  hit?: number;
+  // Sampling policy of the marker, never stored
+  sample?: SamplingPolicy;
+  // Summaries of `sampling` entries: hits so far and how many were dropped
+  hits?: number;
+  dropped?: number;
+}
+
+/**
+ * `compact` stores only the preview of a value, `full` ignores `maxDepth`
+ */
+export type MarkerDetail = 'compact' | 'full';
+
+/**
+ * How reports should render a value
+ */
+export type MarkerFormat = 'json' | 'table';
+
+/**
+ * Directive parsed from the text after `//?`
+ */
+export interface Marker {
+  label?: string;
+  // Expression evaluated against the watched value, which is bound to `$`
+  projection?: string;
+  detail?: MarkerDetail;
+  format?: MarkerFormat;
+  // Expression that must be truthy for the entry to be recorded, `$` is
+  // bound to the value as well
+  condition?: string;
+  sample?: SamplingPolicy;
+  // Measure how long the expression takes to evaluate or settle
+  time?: boolean;
+  // Capture the callers, `true` at the depth configured in the runtime
+  stack?: true | number;
+}
+
+/**
+ * Frame of a captured stack, in the original source when a source map was
+ * found; lines and columns are 1-based
+ */
+export interface StackFrame {
+  functionName?: string;
+  filePath: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Which hits of a marked site are recorded, exactly one limit is set
+ * - `first`: the first N hits
+ * - `last`: the last N hits, written when the runtime flushes
+ * - `every`: every Nth hit, starting with the first
+ * - `rate`: at most N hits per `interval` ms (default 1000)
+ */
+export interface SamplingPolicy {
+  first?: number;
+  last?: number;
+  every?: number;
+  rate?: number;
+  interval?: number;
+}
+
+/**
+ * Position of a node in the original source, lines and columns are 1-based
+ */
+export interface SourcePosition {
+  filePath: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
 }
 
 export interface RuntimeOptions {
   outputFile?: string;
+  serializer?: SerializerOptions;
+  storage?: StorageOptions;
+  shard?: ShardMode;
+  // Policy of sites whose marker sets none
+  sampling?: SamplingPolicy;
+  // Time every watch, as if all markers had the `time` option
+  timing?: boolean;
+  // Follow marked calls across `await` and callbacks, so `parentCallId`
+  // stays correct when calls run concurrently, and tag entries with their
+  // async context (`asyncId`), in Node only
+  asyncContext?: boolean;
+  // Capture the callers of every watch, a number sets how many frames are
+  // kept (default 10), also the depth of `//?stack` markers
+  stack?: boolean | number;
+  // Local socket streaming entries to `inline-debugger tail --socket`,
+  // defaults to the INLINE_DEBUGGER_SOCKET environment variable
+  socket?: string;
+  // Collector the browser runtime sends entries to (`inline-debugger serve`),
+  // `ws://` URLs stream over a WebSocket, `false` keeps entries in memory
+  collector?: string | false;
+  // Entries of each output file kept in memory for `getData` and `query`,
+  // older ones are only in the file (default 10000)
+  memoryLimit?: number;
+  // `sessions` only records entries inside sessions, see `session` and
+  // `start` (default `always`)
+  record?: RecordMode;
+  // Record nothing until `resume` is called
+  paused?: boolean;
+  // Rules hiding secrets in recorded values, see `SerializerOptions`
+  redact?: RedactionRules | false;
+}
+
+export type RecordMode = 'always' | 'sessions';
+
+/**
+ * Options of `session` and `start`
+ */
+export interface SessionOptions {
+  // Output file of the session's entries instead of the runtime's one
+  outputFile?: string;
+}
+
+/**
+ * Filter of `query`, entries match when they match every field that is set
+ * Paths match when equal or when they end with the given relative path
+ */
+export interface EntryQuery {
+  // Output file the entries were stored in, the current one by default
+  outputFile?: string;
+  file?: string | RegExp;
+  // Line of the marker, anywhere from the first to the last line of the
+  // statement it marks
+  line?: number;
+  type?: DebugDataType | DebugDataType[];
+  variable?: string | RegExp;
+  label?: string | RegExp;
+  // Range of `timestamp`, in ms, inclusive
+  since?: number | Date;
+  until?: number | Date;
+  // Full name of the Jest test and its file, see the `jest-setup` module
+  test?: string | RegExp;
+  testPath?: string | RegExp;
+}
+
+/**
+ * Entries of one output file sent by the browser runtime to the collector
+ * in one request or WebSocket message
+ */
+export interface CollectorBatch {
+  outputFile: string;
+  entries: DebugData[];
 }
 
+/**
+ * Durations of the timed entries of one site, in ms
+ * `p95` is the nearest-rank 95th percentile
+ */
+export interface TimingStats {
+  filePath: string;
+  line?: number;
+  column?: number;
+  variable?: string;
+  label?: string;
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p95: number;
+}
+
+/**
+ * Write one output file per process (`true`), never (`false`), or only
+ * inside Jest workers (`auto`)
+ */
+export type ShardMode = boolean | 'auto';
+
+export interface ReportFilters {
+  files?: string[];
+  lines?: [number, number];
+  types?: string[];
+  variables?: string[];
+}
+
+export interface RenderOptions {
+  // Base for displayed file paths
+  cwd?: string;
+  // Use ANSI colors in terminal output
+  color?: boolean;
+  // Maximum width of values appended to source lines
+  width?: number;
+}
+
+export interface MergeOptions {
+  // Where to write the merged result, defaults to the output file itself
+  out?: string;
+  // Remove the shards once they were merged
+  clean?: boolean;
+}
+
+export type StorageFormat = 'json' | 'ndjson';
+
+export interface StorageOptions {
+  format?: StorageFormat;
+  flushInterval?: number;
+  flushSize?: number;
+  // Add to an existing output file instead of replacing it on the first
+  // write, e.g. for every test file a Jest worker runs
+  append?: boolean;
+}
+
+export interface SerializerOptions {
+  maxDepth?: number;
+  maxStringLength?: number;
+  maxCollectionSize?: number;
+  // Rules hiding secrets, added to the default ones; `false` turns redaction
+  // off
+  redact?: RedactionRules | false;
+}
+
+/**
+ * What the serializer replaces with `[REDACTED]`
+ */
+export interface RedactionRules {
+  // Property and map keys whose values are hidden, compared case-insensitively;
+  // `*` matches any characters, e.g. `*token*`
+  keys?: (string | RegExp)[];
+  // Parts of strings that are hidden wherever they appear; strings are
+  // regular expression sources
+  values?: (string | RegExp)[];
+  // Hides a value when it returns true; `key` is undefined for array items
+  // and the value itself
+  custom?: (value: unknown, key: string | undefined, path: string) => boolean;
+  // `false` only applies the rules above (default true)
+  defaults?: boolean;
+}
+
+export interface SerializedProperty {
+  key: string;
+  symbol?: boolean;
+  value?: SerializedValue;
+  getter?: boolean;
+  setter?: boolean;
+}
+
+/**
+ * Typed tree produced by the serializer
+ * `truncated` holds the number of characters or items that were cut off
+ */
+export type SerializedValue =
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'number'; value: number | 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+  | { type: 'bigint'; value: string }
+  | { type: 'string'; value: string; truncated?: number }
+  | { type: 'symbol'; description: string }
+  | {
+      type: 'function';
+      name: string;
+      kind: 'function' | 'async' | 'generator' | 'class';
+      source: string;
+    }
+  | { type: 'date'; value: string }
+  | { type: 'regexp'; source: string; flags: string }
+  | { type: 'promise'; constructor: string }
+  | { type: 'weak'; constructor: string }
+  | { type: 'arrayBuffer'; byteLength: number }
+  | { type: 'circular'; path: string }
+  | { type: 'depth'; constructor: string | null }
+  | { type: 'unserializable'; message: string }
+  | { type: 'redacted' }
+  | {
+      type: 'array';
+      length: number;
+      items: SerializedValue[];
+      truncated?: number;
+    }
+  | {
+      type: 'typedArray';
+      constructor: string;
+      length: number;
+      items: (number | string)[];
+      truncated?: number;
+    }
+  | {
+      type: 'map';
+      constructor: string;
+      size: number;
+      entries: [SerializedValue, SerializedValue][];
+      truncated?: number;
+    }
+  | {
+      type: 'set';
+      constructor: string;
+      size: number;
+      items: SerializedValue[];
+      truncated?: number;
+    }
+  | {
+      type: 'error';
+      name: string;
+      message: string;
+      stack?: string;
+      cause?: SerializedValue;
+      properties: SerializedProperty[];
+      truncated?: number;
+    }
+  | {
+      type: 'object';
+      constructor: string | null;
+      properties: SerializedProperty[];
+      truncated?: number;
+    };
+
+/**
+ * Node kinds the plugin can instrument
+ */
+export type InstrumentKind =
+  | 'variable'
+  | 'assignment'
+  | 'property'
+  | 'expression'
+  | 'log'
+  | 'call'
+  | 'await'
+  | 'throw'
+  | 'return'
+  | 'function'
+  | 'arrow'
+  | 'method'
+  | 'objectMethod'
+  | 'inline';
+
 export interface BabelPluginOptions {
+  enabled?: boolean;
   outputFile?: string;
+  include?: string | string[];
+  exclude?: string | string[];
+  instrument?: InstrumentKind[];
+  injectRuntime?: boolean;
+  runtimeModule?: string;
+  captureReceiver?: boolean;
+}
+
+export interface NormalizedPluginOptions {
+  enabled: boolean;
+  outputFile: string | undefined;
+  include: string[];
+  exclude: string[];
+  instrument: Set<InstrumentKind>;
+  injectRuntime: boolean;
+  runtimeModule: string;
+  captureReceiver: boolean;
+}
+
+/**
+ * Options of `snapshotEntries`
+ */
+export interface SnapshotOptions {
+  // Directory paths are made relative to, the working directory by default;
+  // `undefined` keeps them as they are
+  root?: string | undefined;
 }
 
+/**
+ * Entry as snapshots compare it, see `snapshotEntries`
+ */
+export type SnapshotEntry = Omit<
+  DebugData,
+  'pid' | 'worker' | 'timestamp' | 'seq' | 'start' | 'duration'
+>;
+
 export interface GlobalDebugger {
   getData: () => DebugData[];
   clearData: () => void;
   printData: () => void;
-  getSnapshotData: () => any[];
+  getSnapshotData: (options?: SnapshotOptions) => SnapshotEntry[];
+  query: (query?: EntryQuery) => DebugData[];
+  snapshot: (query?: EntryQuery, options?: SnapshotOptions) => SnapshotEntry[];
+  clear: () => void;
+  reset: () => void;
+  session: <T>(name: string, fn: () => T, options?: SessionOptions) => T;
+  start: (name: string, options?: SessionOptions) => void;
+  stop: (name?: string) => void;
+  pause: () => void;
+  resume: () => void;
+  getTimings: () => TimingStats[];
+  trace: <T>(name: string, fn: () => T) => T;
+  on: (event: 'entry', listener: (entry: DebugData) => void) => () => void;
 }
 
 export interface GlobalWindow {
   inlineDebuggerWatch?: (data: DebugData) => any;
+  inlineDebuggerCall?: (data: DebugData) => any;
   debugLog?: (logFn: (...args: any[]) => void, data: DebugData) => void;
-  debugger?: GlobalDebugger;
+  inlineDebugger?: GlobalDebugger;
 }
 
 export interface GlobalNode {
   inlineDebuggerWatch?: (data: DebugData) => any;
+  inlineDebuggerCall?: (data: DebugData) => any;
   debugLog?: (logFn: (...args: any[]) => void, data: DebugData) => void;
-  debugger?: GlobalDebugger;
+  inlineDebugger?: GlobalDebugger;
 }